@@ -0,0 +1,166 @@
+import { NextRequest } from 'next/server';
+import { AutomationEngine } from '@/lib/automationEngine';
+import { toPublicChannel, validateNotificationChannel } from '@/lib/notificationChannels';
+import { describeFieldErrors } from '@/lib/ruleValidation';
+import { ApiResponse, NotificationChannel, NotificationChannelInput } from '@/types';
+
+export async function GET() {
+  try {
+    const channels = AutomationEngine.getNotificationChannels().map(toPublicChannel);
+
+    const response: ApiResponse<NotificationChannel[]> = {
+      success: true,
+      data: channels,
+      message: `Retrieved ${channels.length} notification channels`
+    };
+
+    return Response.json(response);
+  } catch (error) {
+    console.error('Error fetching notification channels:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch notification channels'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
+
+/**
+ * Validate a channel in a request body, returning the error response if it is invalid
+ */
+function checkChannel(body: unknown, existing?: NotificationChannel): Response | null {
+  const errors = validateNotificationChannel(body, existing);
+  if (errors.length === 0) return null;
+
+  const response: ApiResponse<null> = {
+    success: false,
+    error: `Invalid notification channel: ${describeFieldErrors(errors)}`,
+    errors
+  };
+  return Response.json(response, { status: 400 });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const invalid = checkChannel(body);
+    if (invalid) return invalid;
+
+    const input = body as NotificationChannelInput;
+    if (AutomationEngine.getNotificationChannel(input.id)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `A notification channel with id "${input.id}" already exists`
+      };
+      return Response.json(response, { status: 409 });
+    }
+
+    const channel = AutomationEngine.saveNotificationChannel(input);
+
+    const response: ApiResponse<NotificationChannel> = {
+      success: true,
+      data: toPublicChannel(channel),
+      message: 'Notification channel created successfully'
+    };
+
+    return Response.json(response, { status: 201 });
+  } catch (error) {
+    console.error('Error creating notification channel:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create notification channel'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const existing = AutomationEngine.getNotificationChannel(body?.id);
+
+    const invalid = checkChannel(body, existing || undefined);
+    if (invalid) return invalid;
+
+    const input = body as NotificationChannelInput;
+    if (!existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Notification channel not found'
+      };
+      return Response.json(response, { status: 404 });
+    }
+
+    const channel = AutomationEngine.saveNotificationChannel(input);
+
+    const response: ApiResponse<NotificationChannel> = {
+      success: true,
+      data: toPublicChannel(channel),
+      message: 'Notification channel updated successfully'
+    };
+
+    return Response.json(response);
+  } catch (error) {
+    console.error('Error updating notification channel:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update notification channel'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'id is required'
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    // Rules would silently lose their notifications, so they must drop the channel first
+    const usedBy = AutomationEngine.getRules().filter(rule => rule.notificationChannels?.includes(id));
+    if (usedBy.length > 0) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Notification channel is used by ${usedBy.map(rule => `"${rule.name}"`).join(', ')}`
+      };
+      return Response.json(response, { status: 409 });
+    }
+
+    if (!AutomationEngine.deleteNotificationChannel(id)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Notification channel not found'
+      };
+      return Response.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Notification channel deleted successfully'
+    };
+
+    return Response.json(response);
+  } catch (error) {
+    console.error('Error deleting notification channel:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete notification channel'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
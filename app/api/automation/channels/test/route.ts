@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { AutomationEngine } from '@/lib/automationEngine';
+import { ApiResponse, NotificationDelivery } from '@/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { channelId } = await request.json();
+
+    if (!channelId) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'channelId is required'
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    const delivery = await AutomationEngine.testNotificationChannel(channelId);
+
+    if (!delivery) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Notification channel not found'
+      };
+      return Response.json(response, { status: 404 });
+    }
+
+    // A failed delivery is a valid test result, not a request error
+    const response: ApiResponse<NotificationDelivery> = {
+      success: true,
+      data: delivery,
+      message: delivery.status === 'delivered'
+        ? 'Test notification delivered'
+        : `Test notification failed: ${delivery.error}`
+    };
+
+    return Response.json(response);
+  } catch (error) {
+    console.error('Error testing notification channel:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to test notification channel'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
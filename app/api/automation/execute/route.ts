@@ -1,13 +1,14 @@
 import { NextRequest } from 'next/server';
 import { AutomationEngine } from '@/lib/automationEngine';
-import { ApiResponse, AutomationLog, META_ADS_CONFIG } from '@/types';
+import { ApiResponse, AutomationLog } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { campaignIds = [META_ADS_CONFIG.sampleCampaignId] } = body;
+    // Without campaignIds, every campaign targeted by an active rule is processed
+    const { campaignIds } = body;
 
-    if (!Array.isArray(campaignIds)) {
+    if (campaignIds !== undefined && !Array.isArray(campaignIds)) {
       const response: ApiResponse<null> = {
         success: false,
         error: 'campaignIds must be an array'
@@ -16,17 +17,17 @@ export async function POST(request: NextRequest) {
     }
 
     // Execute automation rules for the specified campaigns
-    await AutomationEngine.processAllRules(campaignIds);
+    const processedIds = await AutomationEngine.processAllRules(campaignIds);
 
     // Get recent logs for the processed campaigns
     const logs = AutomationEngine.getLogs(50).filter(log => 
-      campaignIds.includes(log.campaignId)
+      processedIds.includes(log.campaignId)
     );
 
     const response: ApiResponse<AutomationLog[]> = {
       success: true,
       data: logs,
-      message: `Automation execution completed for ${campaignIds.length} campaigns`
+      message: `Automation execution completed for ${processedIds.length} campaigns`
     };
 
     return Response.json(response);
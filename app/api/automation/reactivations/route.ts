@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server';
+import { AutomationEngine } from '@/lib/automationEngine';
+import { ApiResponse, PendingReactivation } from '@/types';
+
+export async function GET() {
+  try {
+    const reactivations = AutomationEngine.getPendingReactivations();
+
+    const response: ApiResponse<PendingReactivation[]> = {
+      success: true,
+      data: reactivations,
+      message: `Retrieved ${reactivations.length} pending reactivations`
+    };
+
+    return Response.json(response);
+  } catch (error) {
+    console.error('Error fetching pending reactivations:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch pending reactivations'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'id is required'
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    if (!AutomationEngine.cancelReactivation(id)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Pending reactivation not found'
+      };
+      return Response.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Reactivation cancelled; the campaign stays paused'
+    };
+
+    return Response.json(response);
+  } catch (error) {
+    console.error('Error cancelling reactivation:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cancel reactivation'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest } from 'next/server';
+import { AutomationEngine } from '@/lib/automationEngine';
+import { backtestRule, DEFAULT_BACKTEST_DAYS, MAX_BACKTEST_DAYS } from '@/lib/backtest';
+import { describeFieldErrors, validateRuleForm } from '@/lib/ruleValidation';
+import { ApiResponse, AutomationRule, BacktestResult, CreateRuleForm } from '@/types';
+
+/**
+ * Replay a saved rule (`ruleId`) or an unsaved one (`rule`) over the last `days`
+ * days of daily insights. Nothing is executed and no logs are written.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { ruleId, rule: ruleForm, campaignIds, days = DEFAULT_BACKTEST_DAYS } = body as {
+      ruleId?: string;
+      rule?: CreateRuleForm;
+      campaignIds?: string[];
+      days?: number;
+    };
+
+    if (!ruleId && !ruleForm) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Either ruleId or rule is required'
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_BACKTEST_DAYS) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `days must be a whole number between 1 and ${MAX_BACKTEST_DAYS}`
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    if (campaignIds !== undefined &&
+        (!Array.isArray(campaignIds) || campaignIds.some(id => typeof id !== 'string'))) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'campaignIds must be an array of strings'
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    let rule: AutomationRule | null;
+
+    if (ruleId) {
+      rule = AutomationEngine.getRule(ruleId);
+
+      if (!rule) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Rule not found'
+        };
+        return Response.json(response, { status: 404 });
+      }
+    } else {
+      const errors = validateRuleForm(ruleForm, { draft: true });
+      if (errors.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `Invalid rule: ${describeFieldErrors(errors)}`,
+          errors
+        };
+        return Response.json(response, { status: 400 });
+      }
+
+      rule = AutomationEngine.createDraftRule(ruleForm!);
+    }
+
+    const results = await backtestRule(rule, campaignIds, days);
+
+    const response: ApiResponse<BacktestResult[]> = {
+      success: true,
+      data: results,
+      message: `Backtested rule over ${days} days for ${results.length} campaigns`
+    };
+
+    return Response.json(response);
+  } catch (error) {
+    console.error('Error backtesting automation rule:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to backtest automation rule'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
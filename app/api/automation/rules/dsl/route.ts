@@ -0,0 +1,162 @@
+import { NextRequest } from 'next/server';
+import { AutomationEngine } from '@/lib/automationEngine';
+import { describeFieldErrors, validateRuleForm } from '@/lib/ruleValidation';
+import { getChangedBy } from '@/lib/ruleVersions';
+import { formatRuleDsl, parseRuleDsl, RuleDslError } from '@/lib/ruleDsl';
+import { ApiResponse, CreateRuleForm, RuleDslErrorLocation, RuleDslResult } from '@/types';
+
+/**
+ * Print a saved rule as DSL source
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ruleId = request.nextUrl.searchParams.get('ruleId');
+
+    if (!ruleId) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'ruleId is required'
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    const rule = AutomationEngine.getRule(ruleId);
+
+    if (!rule) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Rule not found'
+      };
+      return Response.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse<RuleDslResult> = {
+      success: true,
+      data: { rule, source: formatRuleDsl(rule) }
+    };
+
+    return Response.json(response);
+  } catch (error) {
+    console.error('Error formatting automation rule:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to format automation rule'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
+
+/**
+ * Parse DSL source into a rule. The rule is only created when `save` is true;
+ * otherwise the parsed (unsaved) rule is returned for review.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { source, save = false } = body as { source?: string; save?: boolean };
+
+    if (typeof source !== 'string') {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'source is required'
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    let form: CreateRuleForm;
+    try {
+      form = parseRuleDsl(source);
+    } catch (error) {
+      if (!(error instanceof RuleDslError)) throw error;
+
+      const response: ApiResponse<RuleDslErrorLocation> = {
+        success: false,
+        error: error.message,
+        data: { line: error.line, column: error.column }
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    // Channels only need to exist once the rule is saved
+    const errors = validateRuleForm(form, {
+      draft: true,
+      channelIds: save ? AutomationEngine.getNotificationChannelIds() : undefined
+    });
+    if (errors.length > 0) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Invalid rule: ${describeFieldErrors(errors)}`,
+        errors
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    if (!save) {
+      const rule = AutomationEngine.createDraftRule(form);
+      const response: ApiResponse<RuleDslResult> = {
+        success: true,
+        data: { rule, source: formatRuleDsl(rule) },
+        message: 'Rule parsed (not saved)'
+      };
+      return Response.json(response);
+    }
+
+    if (!form.campaignId && !form.scope) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Saved rules need a target: add an ON clause'
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    if (form.slug && AutomationEngine.getRuleBySlug(form.slug)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `A rule with slug "${form.slug}" already exists`
+      };
+      return Response.json(response, { status: 409 });
+    }
+
+    const rule = AutomationEngine.addRule({
+      name: form.name,
+      slug: form.slug,
+      description: form.description,
+      campaignId: form.campaignId,
+      scope: form.scope,
+      conditions: form.conditions,
+      action: {
+        type: form.actionType,
+        parameters: form.actionParameters
+      },
+      actions: form.actions,
+      isActive: true,
+      priority: form.priority,
+      stopProcessing: form.stopProcessing,
+      cooldownMinutes: form.cooldownMinutes,
+      maxTriggers: form.maxTriggers,
+      hysteresis: form.hysteresis,
+      notificationChannels: form.notificationChannels,
+      dataRequirements: form.dataRequirements,
+      schedule: form.schedule
+    }, getChangedBy(request.headers));
+
+    const response: ApiResponse<RuleDslResult> = {
+      success: true,
+      data: { rule, source: formatRuleDsl(rule) },
+      message: 'Automation rule created successfully'
+    };
+
+    return Response.json(response, { status: 201 });
+  } catch (error) {
+    console.error('Error parsing automation rule:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to parse automation rule'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
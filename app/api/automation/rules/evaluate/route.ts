@@ -0,0 +1,85 @@
+import { NextRequest } from 'next/server';
+import { AutomationEngine } from '@/lib/automationEngine';
+import { describeFieldErrors, validateRuleForm } from '@/lib/ruleValidation';
+import { ApiResponse, AutomationRule, CreateRuleForm, RuleDryRun } from '@/types';
+
+/**
+ * Dry-run a saved rule (`ruleId`) or an unsaved one (`rule`) against campaigns.
+ * Nothing is executed and no logs are written.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { ruleId, rule: ruleForm, campaignIds } = body as {
+      ruleId?: string;
+      rule?: CreateRuleForm;
+      campaignIds?: string[];
+    };
+
+    if (!ruleId && !ruleForm) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Either ruleId or rule is required'
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    if (campaignIds !== undefined &&
+        (!Array.isArray(campaignIds) || campaignIds.some(id => typeof id !== 'string'))) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'campaignIds must be an array of strings'
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    let rule: AutomationRule | null;
+
+    if (ruleId) {
+      rule = AutomationEngine.getRule(ruleId);
+
+      if (!rule) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Rule not found'
+        };
+        return Response.json(response, { status: 404 });
+      }
+    } else {
+      const errors = validateRuleForm(ruleForm, { draft: true });
+      if (errors.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `Invalid rule: ${describeFieldErrors(errors)}`,
+          errors
+        };
+        return Response.json(response, { status: 400 });
+      }
+
+      rule = AutomationEngine.createDraftRule(ruleForm!);
+    }
+
+    const results = await AutomationEngine.dryRunRule(rule, campaignIds);
+
+    const response: ApiResponse<RuleDryRun> = {
+      success: true,
+      data: {
+        rule,
+        results,
+        evaluatedAt: new Date().toISOString()
+      },
+      message: `Evaluated rule against ${results.length} campaigns (dry run)`
+    };
+
+    return Response.json(response);
+  } catch (error) {
+    console.error('Error evaluating automation rule:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to evaluate automation rule'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
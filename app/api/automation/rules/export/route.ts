@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { AutomationEngine } from '@/lib/automationEngine';
+import { exportRulesDocument, RulesDocumentFormat } from '@/lib/ruleTransfer';
+import { ApiResponse } from '@/types';
+
+const CONTENT_TYPES: Record<RulesDocumentFormat, string> = {
+  json: 'application/json',
+  yaml: 'application/yaml'
+};
+
+/**
+ * Download all rules, or the ones listed in `slugs`, as a rules document
+ * (`format=json` by default, or `format=yaml`)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const format = (searchParams.get('format') || 'json') as RulesDocumentFormat;
+    const slugs = searchParams.get('slugs')?.split(',').map(slug => slug.trim()).filter(Boolean);
+
+    if (!(format in CONTENT_TYPES)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'format must be json or yaml'
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    let rules = AutomationEngine.getRules();
+
+    if (slugs?.length) {
+      const missing = slugs.filter(slug => !rules.some(rule => rule.slug === slug));
+      if (missing.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `Rules not found: ${missing.join(', ')}`
+        };
+        return Response.json(response, { status: 404 });
+      }
+
+      rules = rules.filter(rule => slugs.includes(rule.slug));
+    }
+
+    return new Response(exportRulesDocument(rules, format), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="automation-rules.${format}"`
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting automation rules:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to export automation rules'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
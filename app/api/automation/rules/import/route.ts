@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server';
+import { AutomationEngine } from '@/lib/automationEngine';
+import { getChangedBy } from '@/lib/ruleVersions';
+import { describeFieldErrors } from '@/lib/ruleValidation';
+import { importRulesDocument, parseRulesDocument, validateRulesDocument } from '@/lib/ruleTransfer';
+import { ApiResponse, RulesDocument, RulesImportResult } from '@/types';
+
+/**
+ * Import a JSON or YAML rules document sent as the request body. Rules are matched
+ * by slug; `dryRun=true` reports the changes without saving them and `prune=true`
+ * also removes rules missing from the document.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const dryRun = searchParams.get('dryRun') === 'true';
+    const prune = searchParams.get('prune') === 'true';
+
+    let document: unknown;
+    try {
+      document = parseRulesDocument(await request.text());
+    } catch (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Could not parse rules document: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    const errors = validateRulesDocument(document, AutomationEngine.getNotificationChannelIds());
+    if (errors.length > 0) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Invalid rules document: ${describeFieldErrors(errors)}`,
+        errors
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    const result = importRulesDocument(document as RulesDocument, {
+      dryRun,
+      prune,
+      changedBy: getChangedBy(request.headers)
+    });
+
+    const response: ApiResponse<RulesImportResult> = {
+      success: true,
+      data: result,
+      message: `${dryRun ? 'Dry run: ' : ''}${result.created.length} created, ${result.updated.length} updated, ` +
+        `${result.unchanged.length} unchanged, ${result.removed.length} removed`
+    };
+
+    return Response.json(response);
+  } catch (error) {
+    console.error('Error importing automation rules:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to import automation rules'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
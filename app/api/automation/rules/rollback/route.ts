@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { AutomationEngine } from '@/lib/automationEngine';
+import { getChangedBy } from '@/lib/ruleVersions';
+import { ApiResponse, AutomationRule } from '@/types';
+
+/**
+ * Restore a rule to the configuration of an earlier version
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { ruleId, version } = body as { ruleId?: string; version?: number };
+
+    if (!ruleId || !Number.isInteger(version)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'ruleId and an integer version are required'
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    if (!AutomationEngine.getRule(ruleId)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Rule not found'
+      };
+      return Response.json(response, { status: 404 });
+    }
+
+    const rule = AutomationEngine.rollbackRule(ruleId, version!, getChangedBy(request.headers));
+
+    if (!rule) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Version ${version} not found`
+      };
+      return Response.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse<AutomationRule> = {
+      success: true,
+      data: rule,
+      message: `Rule rolled back to version ${version} (now version ${rule.version})`
+    };
+
+    return Response.json(response);
+  } catch (error) {
+    console.error('Error rolling back automation rule:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to roll back automation rule'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest } from 'next/server';
 import { AutomationEngine } from '@/lib/automationEngine';
+import { getChangedBy } from '@/lib/ruleVersions';
+import { describeFieldErrors, validateRuleForm, validateRuleUpdate } from '@/lib/ruleValidation';
 import { ApiResponse, AutomationRule, CreateRuleForm } from '@/types';
 
 export async function GET() {
@@ -28,37 +30,49 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const body: CreateRuleForm = await request.json();
-    
-    // Validate required fields
-    if (!body.name || !body.campaignId || !body.conditions || !body.actionType) {
+
+    const errors = validateRuleForm(body, { channelIds: AutomationEngine.getNotificationChannelIds() });
+    if (errors.length > 0) {
       const response: ApiResponse<null> = {
         success: false,
-        error: 'Missing required fields: name, campaignId, conditions, actionType'
+        error: `Invalid rule: ${describeFieldErrors(errors)}`,
+        errors
       };
       return Response.json(response, { status: 400 });
     }
 
-    // Validate conditions
-    if (!Array.isArray(body.conditions) || body.conditions.length === 0) {
+    // Slugs are generated from the name when omitted
+    if (body.slug !== undefined && AutomationEngine.getRuleBySlug(body.slug)) {
       const response: ApiResponse<null> = {
         success: false,
-        error: 'At least one condition is required'
+        error: `A rule with slug "${body.slug}" already exists`
       };
-      return Response.json(response, { status: 400 });
+      return Response.json(response, { status: 409 });
     }
 
     // Create the rule
     const newRule = AutomationEngine.addRule({
       name: body.name,
+      slug: body.slug,
       description: body.description || '',
       campaignId: body.campaignId,
+      scope: body.scope,
       conditions: body.conditions,
       action: {
         type: body.actionType,
         parameters: body.actionParameters
       },
-      isActive: true
-    });
+      actions: body.actions,
+      isActive: true,
+      priority: body.priority,
+      stopProcessing: body.stopProcessing,
+      cooldownMinutes: body.cooldownMinutes,
+      maxTriggers: body.maxTriggers,
+      hysteresis: body.hysteresis,
+      notificationChannels: body.notificationChannels,
+      dataRequirements: body.dataRequirements,
+      schedule: body.schedule
+    }, getChangedBy(request.headers));
 
     const response: ApiResponse<AutomationRule> = {
       success: true,
@@ -92,7 +106,21 @@ export async function PUT(request: NextRequest) {
       return Response.json(response, { status: 400 });
     }
 
-    const updatedRule = AutomationEngine.updateRule(ruleId, updates);
+    const errors = validateRuleUpdate(
+      updates,
+      AutomationEngine.getRule(ruleId) || undefined,
+      AutomationEngine.getNotificationChannelIds()
+    );
+    if (errors.length > 0) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Invalid rule update: ${describeFieldErrors(errors)}`,
+        errors
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    const updatedRule = AutomationEngine.updateRule(ruleId, updates, getChangedBy(request.headers));
     
     if (!updatedRule) {
       const response: ApiResponse<null> = {
@@ -0,0 +1,127 @@
+import { NextRequest } from 'next/server';
+import { AutomationEngine } from '@/lib/automationEngine';
+import { getChangedBy } from '@/lib/ruleVersions';
+import { describeFieldErrors, validateRuleForm } from '@/lib/ruleValidation';
+import {
+  getRuleTemplate,
+  getRuleTemplates,
+  instantiateRuleTemplate,
+  TemplateValues,
+  validateTemplateValues
+} from '@/lib/ruleTemplates';
+import { ApiResponse, AutomationRule, RuleTemplate } from '@/types';
+
+export async function GET() {
+  try {
+    const templates = getRuleTemplates();
+
+    const response: ApiResponse<RuleTemplate[]> = {
+      success: true,
+      data: templates,
+      message: `Retrieved ${templates.length} rule templates`
+    };
+
+    return Response.json(response);
+  } catch (error) {
+    console.error('Error fetching rule templates:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch rule templates'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
+
+/**
+ * Create a rule from a template for a set of campaigns. A single campaign is
+ * targeted directly; several are targeted through a scope.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { templateId, values, campaignIds, name } = body as {
+      templateId?: string;
+      values?: TemplateValues;
+      campaignIds?: string[];
+      name?: string;
+    };
+
+    if (!templateId || !Array.isArray(campaignIds) || campaignIds.length === 0 ||
+        campaignIds.some(id => typeof id !== 'string')) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'templateId and a non-empty campaignIds array are required'
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    const template = getRuleTemplate(templateId);
+
+    if (!template) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Template not found'
+      };
+      return Response.json(response, { status: 404 });
+    }
+
+    const valueErrors = validateTemplateValues(template, values);
+    if (valueErrors.length > 0) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Invalid template values: ${valueErrors.join('; ')}`
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    const form = instantiateRuleTemplate(templateId, values)!;
+
+    const errors = validateRuleForm(form, { draft: true });
+    if (errors.length > 0) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Invalid rule: ${describeFieldErrors(errors)}`,
+        errors
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    const newRule = AutomationEngine.addRule({
+      name: name?.trim() || form.name,
+      description: form.description,
+      campaignId: campaignIds.length === 1 ? campaignIds[0] : undefined,
+      scope: campaignIds.length > 1 ? { campaignIds } : undefined,
+      conditions: form.conditions,
+      action: {
+        type: form.actionType,
+        parameters: form.actionParameters
+      },
+      isActive: true,
+      priority: form.priority,
+      stopProcessing: form.stopProcessing,
+      cooldownMinutes: form.cooldownMinutes,
+      maxTriggers: form.maxTriggers,
+      dataRequirements: form.dataRequirements,
+      schedule: form.schedule
+    }, getChangedBy(request.headers));
+
+    const response: ApiResponse<AutomationRule> = {
+      success: true,
+      data: newRule,
+      message: `Created rule from template "${template.name}"`
+    };
+
+    return Response.json(response, { status: 201 });
+  } catch (error) {
+    console.error('Error instantiating rule template:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to instantiate rule template'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
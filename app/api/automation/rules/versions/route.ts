@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { AutomationEngine } from '@/lib/automationEngine';
+import { ApiResponse, RuleVersion } from '@/types';
+
+/**
+ * List a rule's version history, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ruleId = request.nextUrl.searchParams.get('ruleId');
+
+    if (!ruleId) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'ruleId is required'
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    const versions = AutomationEngine.getRuleVersions(ruleId).reverse();
+
+    if (versions.length === 0) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Rule not found'
+      };
+      return Response.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse<RuleVersion[]> = {
+      success: true,
+      data: versions,
+      message: `Retrieved ${versions.length} versions`
+    };
+
+    return Response.json(response);
+  } catch (error) {
+    console.error('Error fetching rule versions:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch rule versions'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
@@ -16,10 +16,16 @@ export async function GET(request: NextRequest) {
     // Calculate additional metrics
     const calculatedMetrics = MetaAdsService.calculateMetrics(insights);
 
+    // Rule schedules are shown in the ad account's timezone
+    const accountTimezone = campaign.account_id
+      ? await MetaAdsService.getAdAccountTimezone(campaign.account_id)
+      : null;
+
     const campaignWithInsights: CampaignWithInsights = {
       campaign,
       insights,
       calculatedMetrics,
+      accountTimezone: accountTimezone || undefined,
       lastUpdated: new Date().toISOString()
     };
 
@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server';
+import { AutomationEngine } from '@/lib/automationEngine';
+import { ApiResponse } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const campaignId = request.nextUrl.searchParams.get('campaignId');
+    const allTags = AutomationEngine.getCampaignTags();
+    const tags = campaignId ? { [campaignId]: allTags[campaignId] || [] } : allTags;
+
+    const response: ApiResponse<Record<string, string[]>> = {
+      success: true,
+      data: tags,
+      message: `Retrieved tags for ${Object.keys(tags).length} campaigns`
+    };
+
+    return Response.json(response);
+  } catch (error) {
+    console.error('Error fetching campaign tags:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch campaign tags'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { campaignId, tags } = body;
+
+    if (!campaignId || !Array.isArray(tags) || tags.some((tag: unknown) => typeof tag !== 'string')) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'campaignId and a list of string tags are required'
+      };
+      return Response.json(response, { status: 400 });
+    }
+
+    const savedTags = AutomationEngine.setCampaignTags(campaignId, tags);
+
+    const response: ApiResponse<string[]> = {
+      success: true,
+      data: savedTags,
+      message: 'Campaign tags updated successfully'
+    };
+
+    return Response.json(response);
+  } catch (error) {
+    console.error('Error updating campaign tags:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update campaign tags'
+    };
+
+    return Response.json(response, { status: 500 });
+  }
+}
@@ -1,10 +1,11 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { CampaignWithInsights, AutomationRule, AutomationLog } from '@/types';
+import { CampaignWithInsights, AutomationRule, AutomationLog, PendingReactivation } from '@/types';
 import { CampaignCard } from '@/components/CampaignCard';
 import { AutomationRules } from '@/components/AutomationRules';
 import { AutomationLogs } from '@/components/AutomationLogs';
+import { PendingReactivations } from '@/components/PendingReactivations';
 import { CreateRuleModal } from '@/components/CreateRuleModal';
 import { automationScheduler } from '@/lib/scheduler';
 
@@ -12,6 +13,7 @@ export default function Dashboard() {
   const [campaignData, setCampaignData] = useState<CampaignWithInsights | null>(null);
   const [automationRules, setAutomationRules] = useState<AutomationRule[]>([]);
   const [automationLogs, setAutomationLogs] = useState<AutomationLog[]>([]);
+  const [pendingReactivations, setPendingReactivations] = useState<PendingReactivation[]>([]);
   const [showCreateRuleModal, setShowCreateRuleModal] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -46,6 +48,19 @@ export default function Dashboard() {
     }
   }, []);
 
+  // Fetch campaigns waiting to be reactivated after a pause
+  const fetchPendingReactivations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/automation/reactivations');
+      const result = await response.json();
+      if (result.success) {
+        setPendingReactivations(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch pending reactivations:', error);
+    }
+  }, []);
+
   // Fetch automation logs with reactive updates
   const fetchAutomationLogs = useCallback(async (showLoading = false) => {
     try {
@@ -89,6 +104,7 @@ export default function Dashboard() {
         
         // Check if we have new logs (only update state if there are actually new logs)
         if (newLogs.length > automationLogs.length) {
+          fetchPendingReactivations();
           setNewLogsIndicator(true);
           setAutomationLogs(newLogs);
           setLastLogCount(newLogs.length);
@@ -100,16 +116,17 @@ export default function Dashboard() {
       // Silently handle polling errors to avoid spam
       console.log('Polling error (normal):', error instanceof Error ? error.message : 'Unknown error');
     }
-  }, [automationLogs.length]);
+  }, [automationLogs.length, fetchPendingReactivations]);
 
   // Load data without main loading state (for refreshes)
   const loadData = useCallback(async () => {
     await Promise.all([
       fetchCampaignData(),
       fetchAutomationRules(),
-      fetchAutomationLogs()
+      fetchAutomationLogs(),
+      fetchPendingReactivations()
     ]);
-  }, [fetchCampaignData, fetchAutomationRules, fetchAutomationLogs]);
+  }, [fetchCampaignData, fetchAutomationRules, fetchAutomationLogs, fetchPendingReactivations]);
 
   // Refresh data
   const refreshData = useCallback(async () => {
@@ -132,7 +149,7 @@ export default function Dashboard() {
       if (result.success) {
         // Update logs immediately after execution
         await fetchAutomationLogs(false); // Don't show additional loading
-        await fetchCampaignData();
+        await Promise.all([fetchCampaignData(), fetchPendingReactivations()]);
       }
     } catch (error) {
       console.error('Failed to execute automation:', error);
@@ -162,6 +179,26 @@ export default function Dashboard() {
     }
   };
 
+  // Handle cancelling a pending reactivation
+  const handleReactivationCancelled = async (id: string) => {
+    try {
+      const response = await fetch(`/api/automation/reactivations?id=${id}`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        await fetchPendingReactivations();
+      }
+    } catch (error) {
+      console.error('Failed to cancel reactivation:', error);
+    }
+  };
+
+  // Load pending reactivations once on mount
+  useEffect(() => {
+    fetchPendingReactivations();
+  }, [fetchPendingReactivations]);
+
   // Update scheduler status periodically
   useEffect(() => {
     const interval = setInterval(() => {
@@ -333,22 +370,48 @@ export default function Dashboard() {
             <div className="bg-white rounded-lg shadow">
               <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
                 <h2 className="text-lg font-medium text-gray-900">Automation Rules</h2>
-                <button
-                  onClick={() => setShowCreateRuleModal(true)}
-                  disabled={!campaignData}
-                  className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
-                >
-                  + Add Rule
-                </button>
+                <div className="flex items-center space-x-3">
+                  {automationRules.length > 0 && (
+                    <a
+                      href="/api/automation/rules/export?format=yaml"
+                      className="text-sm font-medium text-gray-600 hover:text-gray-900"
+                    >
+                      Export
+                    </a>
+                  )}
+                  <button
+                    onClick={() => setShowCreateRuleModal(true)}
+                    disabled={!campaignData}
+                    className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    + Add Rule
+                  </button>
+                </div>
               </div>
               <div className="p-6">
                 <AutomationRules 
                   rules={automationRules} 
                   onDeleteRule={handleRuleDeleted}
+                  accountTimezone={campaignData?.accountTimezone}
                 />
               </div>
             </div>
 
+            {/* Pending Reactivations */}
+            {pendingReactivations.length > 0 && (
+              <div className="mt-8 bg-white rounded-lg shadow">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h2 className="text-lg font-medium text-gray-900">Paused Until</h2>
+                </div>
+                <div className="p-6">
+                  <PendingReactivations
+                    reactivations={pendingReactivations}
+                    onCancel={handleReactivationCancelled}
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Quick Stats */}
             <div className="mt-8 bg-white rounded-lg shadow p-6">
               <h3 className="text-lg font-medium text-gray-900 mb-4">Quick Stats</h3>
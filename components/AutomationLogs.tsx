@@ -1,4 +1,5 @@
-import { AutomationLog } from '@/types';
+import { ActionStepResult, ActionStepStatus, AutomationLog, AutomationLogEvaluation, ConditionEvaluation, NotificationDelivery } from '@/types';
+import { formatInsightsWindow } from '@/lib/insightsWindows';
 import { format } from 'date-fns';
 import { useState, useEffect } from 'react';
 
@@ -59,6 +60,8 @@ export function AutomationLogs({ logs }: AutomationLogsProps) {
     switch (action) {
       case 'PAUSE_CAMPAIGN':
         return 'bg-red-100 text-red-800';
+      case 'RESUME_CAMPAIGN':
+        return 'bg-green-100 text-green-800';
       case 'ADJUST_BUDGET':
         return 'bg-yellow-100 text-yellow-800';
       case 'LOG_EVENT':
@@ -74,6 +77,124 @@ export function AutomationLogs({ logs }: AutomationLogsProps) {
     return action.replace('_', ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase());
   };
 
+  const formatValue = (value: number | null | undefined) => {
+    if (value === null || value === undefined) return 'n/a';
+    return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  };
+
+  const formatConditionField = (condition: ConditionEvaluation) => {
+    if (!condition.change) return condition.field;
+    return `${condition.field} ${condition.change === 'percent' ? '% change' : 'change'}`;
+  };
+
+  const getStepStatusColor = (status: ActionStepStatus) => {
+    switch (status) {
+      case 'succeeded':
+        return 'text-green-700';
+      case 'failed':
+        return 'text-red-700';
+      case 'compensated':
+        return 'text-amber-700';
+      default:
+        return 'text-gray-500';
+    }
+  };
+
+  const renderActionSteps = (steps: ActionStepResult[]) => (
+    <ol className="mt-2 p-2 bg-white rounded border space-y-1">
+      {steps.map((step) => (
+        <li key={step.step} className="flex justify-between gap-2">
+          <span>
+            {step.step}. {formatActionType(step.type)}
+            {step.error && <span className="block text-red-700">{step.error}</span>}
+            {step.compensation && (
+              <span className="block text-gray-500">
+                Undo with {formatActionType(step.compensation.type)}: {step.compensation.success ? 'done' : step.compensation.error}
+              </span>
+            )}
+          </span>
+          <span className={`font-medium ${getStepStatusColor(step.status)}`}>{step.status}</span>
+        </li>
+      ))}
+    </ol>
+  );
+
+  const renderNotifications = (deliveries: NotificationDelivery[]) => (
+    <ul className="mt-2 p-2 bg-white rounded border space-y-1">
+      {deliveries.map((delivery) => (
+        <li key={delivery.channelId} className="flex justify-between gap-2">
+          <span>
+            Notify {delivery.channelId}{delivery.channelType && ` (${delivery.channelType})`}
+            {delivery.error && <span className="block text-red-700">{delivery.error}</span>}
+          </span>
+          <span className={`font-medium ${delivery.status === 'delivered' ? 'text-green-700' : 'text-red-700'}`}>
+            {delivery.status}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  const renderEvaluation = (evaluation: AutomationLogEvaluation) => (
+    <div className="mt-2 p-2 bg-white rounded border">
+      {evaluation.conditions.length > 0 && (
+        <table className="w-full text-left">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="font-normal pr-2">Condition</th>
+              <th className="font-normal pr-2">Window</th>
+              <th className="font-normal pr-2 text-right">Actual</th>
+              <th className="font-normal pr-2 text-center">Op</th>
+              <th className="font-normal pr-2 text-right">Threshold</th>
+              <th className="font-normal text-right">Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {evaluation.conditions.map((condition) => (
+              <tr key={condition.conditionId}>
+                <td className="pr-2 font-medium">
+                  {formatConditionField(condition)}
+                  {condition.change && (
+                    <span className="block font-normal text-gray-500">
+                      {formatValue(condition.currentValue)} vs {formatValue(condition.baselineValue)}
+                    </span>
+                  )}
+                </td>
+                <td className="pr-2">{formatInsightsWindow(condition.window)}</td>
+                <td className="pr-2 text-right font-medium">{formatValue(condition.actualValue)}</td>
+                <td className="pr-2 text-center">{condition.operator}</td>
+                <td className="pr-2 text-right">{formatValue(condition.threshold)}</td>
+                {condition.insufficientData ? (
+                  <td className="text-right font-medium text-amber-700" title={condition.insufficientData}>
+                    n/a
+                  </td>
+                ) : (
+                  <td className={`text-right font-medium ${condition.passed ? 'text-green-700' : 'text-red-700'}`}>
+                    {condition.passed ? 'pass' : 'fail'}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div className={`flex flex-wrap gap-x-4 ${evaluation.conditions.length > 0 ? 'mt-2 pt-2 border-t border-gray-100' : ''}`}>
+        <span>
+          <span className="text-gray-500">Overall: </span>
+          <span className="font-medium">
+            {evaluation.insufficientData ? 'insufficient data' : evaluation.matched ? 'matched' : 'not matched'}
+          </span>
+        </span>
+        {evaluation.actionParameters && Object.entries(evaluation.actionParameters).map(([key, value]) => (
+          <span key={key}>
+            <span className="text-gray-500">{key}: </span>
+            <span className="font-medium">{String(value)}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+
   if (displayLogs.length === 0) {
     return (
       <div className="text-center py-12">
@@ -158,11 +279,26 @@ export function AutomationLogs({ logs }: AutomationLogsProps) {
                       <span className="text-sm text-gray-600">
                         Campaign: {log.campaignId}
                       </span>
+                      {log.ruleVersion && (
+                        <span className="text-xs text-gray-500" title={`Rule ${log.ruleId}`}>
+                          Rule v{log.ruleVersion}
+                        </span>
+                      )}
                       {log.triggered && (
                         <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                           ✓ Triggered
                         </span>
                       )}
+                      {log.actionOutcome === 'partial_failure' && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                          Partial failure
+                        </span>
+                      )}
+                      {log.metadata?.executor === 'simulated' && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                          Simulated
+                        </span>
+                      )}
                     </div>
                     <time className="flex-shrink-0 text-xs text-gray-500">
                       {format(new Date(log.timestamp), 'MMM d, HH:mm:ss')}
@@ -173,18 +309,23 @@ export function AutomationLogs({ logs }: AutomationLogsProps) {
                     {log.reason}
                   </p>
                   
-                  {log.metadata && Object.keys(log.metadata).length > 0 && (
+                  {(log.evaluation || log.actionSteps || log.notifications || (log.metadata && Object.keys(log.metadata).length > 0)) && (
                     <div className="mt-2 text-xs text-gray-600">
                       <details className="cursor-pointer">
                         <summary className="hover:text-gray-800">View details</summary>
-                        <div className="grid grid-cols-2 gap-2 mt-2 p-2 bg-white rounded border">
-                          {Object.entries(log.metadata).map(([key, value]) => (
-                            <div key={key} className="flex justify-between">
-                              <span className="text-gray-500">{key}:</span>
-                              <span className="font-medium">{String(value)}</span>
-                            </div>
-                          ))}
-                        </div>
+                        {log.actionSteps && renderActionSteps(log.actionSteps)}
+                        {log.notifications && renderNotifications(log.notifications)}
+                        {log.evaluation && renderEvaluation(log.evaluation)}
+                        {log.metadata && Object.keys(log.metadata).length > 0 && (
+                          <div className="grid grid-cols-2 gap-2 mt-2 p-2 bg-white rounded border">
+                            {Object.entries(log.metadata).map(([key, value]) => (
+                              <div key={key} className="flex justify-between">
+                                <span className="text-gray-500">{key}:</span>
+                                <span className="font-medium">{String(value)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </details>
                     </div>
                   )}
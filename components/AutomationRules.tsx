@@ -1,16 +1,30 @@
-import { AutomationRule } from '@/types';
+import { AutomationRule, ConditionGroup, DataRequirements } from '@/types';
+import { isConditionGroup } from '@/lib/conditionTree';
+import { formatInsightsWindow } from '@/lib/insightsWindows';
+import { sortRulesByPriority } from '@/lib/actionPlanner';
+import { describeRuleScope, getRuleScope } from '@/lib/ruleScopes';
+import {
+  describeRuleSchedule,
+  formatInTimezone,
+  getNextEligibleTime,
+  isWithinSchedule,
+  resolveScheduleTimezone
+} from '@/lib/ruleSchedule';
 import { format } from 'date-fns';
 
 interface AutomationRulesProps {
   rules: AutomationRule[];
   onDeleteRule: (ruleId: string) => void;
+  accountTimezone?: string; // Used for schedules without their own timezone
 }
 
-export function AutomationRules({ rules, onDeleteRule }: AutomationRulesProps) {
+export function AutomationRules({ rules, onDeleteRule, accountTimezone }: AutomationRulesProps) {
   const getActionColor = (actionType: string) => {
     switch (actionType) {
       case 'PAUSE_CAMPAIGN':
         return 'bg-red-100 text-red-800';
+      case 'RESUME_CAMPAIGN':
+        return 'bg-green-100 text-green-800';
       case 'ADJUST_BUDGET':
         return 'bg-blue-100 text-blue-800';
       case 'LOG_EVENT':
@@ -26,25 +40,56 @@ export function AutomationRules({ rules, onDeleteRule }: AutomationRulesProps) {
     return actionType.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase());
   };
 
-  const formatConditions = (conditions: AutomationRule['conditions']) => {
-    return conditions.map((condition, index) => {
-      const isLast = index === conditions.length - 1;
-      const nextCondition = conditions[index + 1];
-      const logicalOperator = nextCondition?.logicalOperator || 'AND';
-      
-      return (
-        <span key={condition.id} className="inline-flex items-center">
-          <span className="px-2 py-1 bg-blue-50 text-blue-700 rounded text-xs font-medium">
-            {condition.field} {condition.operator} {condition.value}
+  const formatDataRequirements = (requirements: DataRequirements) => {
+    return [
+      requirements.minImpressions && `${requirements.minImpressions} impr.`,
+      requirements.minClicks && `${requirements.minClicks} clicks`,
+      requirements.minSpend && `$${requirements.minSpend} spend`,
+      requirements.minDaysRunning && `${requirements.minDaysRunning}d running`
+    ].filter(Boolean).join(' · ');
+  };
+
+  const formatScheduleStatus = (rule: AutomationRule) => {
+    const now = new Date();
+    const timezone = resolveScheduleTimezone(rule.schedule, accountTimezone);
+
+    if (isWithinSchedule(rule.schedule, now, timezone)) return 'Eligible now';
+
+    const next = getNextEligibleTime(rule.schedule, now, timezone);
+    return next
+      ? `Next eligible ${formatInTimezone(next, timezone)} (${timezone})`
+      : 'Schedule ended';
+  };
+
+  const formatConditions = (group: ConditionGroup, isNested = false): React.ReactNode => {
+    return (
+      <span key={group.id} className="inline-flex flex-wrap items-center gap-y-1">
+        {isNested && <span className="mr-1 text-sm text-gray-400">(</span>}
+        {group.conditions.map((node, index) => (
+          <span key={node.id} className="inline-flex items-center">
+            {isConditionGroup(node) ? (
+              formatConditions(node, true)
+            ) : (
+              <span className="px-2 py-1 bg-blue-50 text-blue-700 rounded text-xs font-medium">
+                {node.change ? `${node.field} ${node.change.mode === 'percent' ? '% change' : 'change'}` : node.field}{' '}
+                {node.operator} {node.valueExpression ?? node.value}
+                {node.confidence && <span className="ml-1 font-normal">@ {node.confidence * 100}%</span>}
+                <span className="ml-1 font-normal text-blue-500">
+                  ({formatInsightsWindow(node.window)}
+                  {node.change && ` vs ${node.change.baseline === 'previous_period' ? 'previous period' : formatInsightsWindow(node.change.baseline)}`})
+                </span>
+              </span>
+            )}
+            {index < group.conditions.length - 1 && (
+              <span className="mx-2 text-xs font-medium text-gray-500">
+                {group.operator}
+              </span>
+            )}
           </span>
-          {!isLast && (
-            <span className="mx-2 text-xs font-medium text-gray-500">
-              {logicalOperator}
-            </span>
-          )}
-        </span>
-      );
-    });
+        ))}
+        {isNested && <span className="ml-1 text-sm text-gray-400">)</span>}
+      </span>
+    );
   };
 
   if (rules.length === 0) {
@@ -63,7 +108,7 @@ export function AutomationRules({ rules, onDeleteRule }: AutomationRulesProps) {
 
   return (
     <div className="space-y-4">
-      {rules.map((rule) => (
+      {sortRulesByPriority(rules).map((rule) => (
         <div
           key={rule.id}
           className={`border rounded-lg p-4 ${
@@ -75,6 +120,16 @@ export function AutomationRules({ rules, onDeleteRule }: AutomationRulesProps) {
               <div className="flex items-center space-x-2 mb-1">
                 <h4 className="font-medium text-gray-900">{rule.name}</h4>
                 <div className={`w-2 h-2 rounded-full ${rule.isActive ? 'bg-green-400' : 'bg-gray-400'}`}></div>
+                {rule.priority ? (
+                  <span className="px-2 py-0.5 rounded text-xs font-medium bg-indigo-100 text-indigo-800">
+                    Priority {rule.priority}
+                  </span>
+                ) : null}
+                {rule.stopProcessing && (
+                  <span className="px-2 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800">
+                    Stops processing
+                  </span>
+                )}
               </div>
               {rule.description && (
                 <p className="text-sm text-gray-600 mb-2">{rule.description}</p>
@@ -105,8 +160,33 @@ export function AutomationRules({ rules, onDeleteRule }: AutomationRulesProps) {
             </div>
           </div>
 
+          {/* Action Sequence */}
+          {rule.actions && rule.actions.length > 0 && (
+            <div className="mb-3">
+              <p className="text-xs font-medium text-gray-500 mb-2">ACTION SEQUENCE:</p>
+              <ol className="bg-white rounded p-2 text-xs space-y-1">
+                {rule.actions.map((step, index) => (
+                  <li key={index} className="flex justify-between gap-2">
+                    <span>
+                      {index + 1}. <span className="font-medium">{formatActionType(step.type)}</span>
+                      {step.parameters && Object.keys(step.parameters).length > 0 && (
+                        <span className="text-gray-600">
+                          {' '}({Object.entries(step.parameters).map(([key, value]) => `${key}: ${value}`).join(', ')})
+                        </span>
+                      )}
+                      {step.compensation && (
+                        <span className="block text-gray-500">Undo: {formatActionType(step.compensation.type)}</span>
+                      )}
+                    </span>
+                    <span className="text-gray-500">on failure: {step.onFailure || 'stop'}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
           {/* Action Details */}
-          {rule.action.parameters && Object.keys(rule.action.parameters).length > 0 && (
+          {!rule.actions?.length && rule.action.parameters && Object.keys(rule.action.parameters).length > 0 && (
             <div className="mb-3">
               <p className="text-xs font-medium text-gray-500 mb-2">ACTION PARAMETERS:</p>
               <div className="bg-white rounded p-2 text-xs">
@@ -120,18 +200,56 @@ export function AutomationRules({ rules, onDeleteRule }: AutomationRulesProps) {
             </div>
           )}
 
+          {/* Schedule */}
+          {rule.schedule && (
+            <div className="mb-3">
+              <p className="text-xs font-medium text-gray-500 mb-2">SCHEDULE:</p>
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="px-2 py-1 bg-purple-50 text-purple-700 rounded font-medium">
+                  {describeRuleSchedule(rule.schedule)}
+                </span>
+                {rule.isActive && (
+                  <span className="text-gray-600">{formatScheduleStatus(rule)}</span>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Rule Metadata */}
           <div className="flex justify-between items-center text-xs text-gray-500 pt-2 border-t border-gray-200">
             <div>
               <span>Created: {format(new Date(rule.createdAt), 'MMM d, yyyy')}</span>
+              <span className="ml-4 font-mono">{rule.slug}</span>
+              {rule.version && <span className="ml-4">Version {rule.version}</span>}
               {rule.lastTriggered && (
                 <span className="ml-4">
                   Last triggered: {format(new Date(rule.lastTriggered), 'MMM d, yyyy HH:mm')}
                 </span>
               )}
+              {rule.cooldownMinutes ? (
+                <span className="ml-4">Cooldown: {rule.cooldownMinutes}m</span>
+              ) : null}
+              {rule.maxTriggers && (
+                <span className="ml-4">Max: {rule.maxTriggers.count}/{rule.maxTriggers.period}</span>
+              )}
+              {rule.hysteresis && (
+                <span className="ml-4">
+                  Hold: {[
+                    rule.hysteresis.consecutiveEvaluations && `${rule.hysteresis.consecutiveEvaluations} runs`,
+                    rule.hysteresis.minDurationMinutes && `${rule.hysteresis.minDurationMinutes}m`,
+                    rule.hysteresis.recovery && 'until recovered'
+                  ].filter(Boolean).join(', ')}
+                </span>
+              )}
+              {rule.notificationChannels?.length ? (
+                <span className="ml-4">Notify: {rule.notificationChannels.join(', ')}</span>
+              ) : null}
+              {rule.dataRequirements && (
+                <span className="ml-4">Min data: {formatDataRequirements(rule.dataRequirements)}</span>
+              )}
             </div>
             <div className="flex items-center space-x-2">
-              <span>Campaign: {rule.campaignId}</span>
+              <span>Target: {describeRuleScope(getRuleScope(rule))}</span>
             </div>
           </div>
         </div>
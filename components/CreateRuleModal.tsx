@@ -1,6 +1,46 @@
-import { useState } from 'react';
-import { ActionType, ComparisonOperator, LogicalOperator, AVAILABLE_METRICS, CreateRuleForm } from '@/types';
+import { useEffect, useState } from 'react';
+import {
+  ActionType,
+  ACTION_PARAMETERS,
+  BUDGET_CHANGE_MODES,
+  BudgetChangeMode,
+  ComparisonOperator,
+  LogicalOperator,
+  AVAILABLE_METRICS,
+  CreateRuleForm,
+  InsightsWindow,
+  ConditionChange,
+  ChangeMode,
+  TriggerCap,
+  RuleScope,
+  CampaignStatus,
+  ConfidenceLevel,
+  DataRequirements,
+  RuleSchedule,
+  Weekday,
+  WEEKDAYS,
+  CONFIDENCE_LEVELS,
+  INSIGHTS_DATE_PRESETS,
+  DEFAULT_INSIGHTS_WINDOW,
+  NotificationChannel
+} from '@/types';
 import { v4 as uuidv4 } from 'uuid';
+import { validateMetricExpression } from '@/lib/metricExpression';
+import { validateMessageTemplate } from '@/lib/messageTemplate';
+import {
+  getRuleTemplates,
+  getTemplateDefaults,
+  instantiateRuleTemplate,
+  TemplateValues,
+  validateTemplateValues
+} from '@/lib/ruleTemplates';
+
+const BUDGET_MODE_LABELS: Record<BudgetChangeMode, string> = {
+  newBudget: 'Set budget to',
+  changePercent: 'Change by percent',
+  changeAmount: 'Change by amount',
+  spendMultiple: "Multiple of yesterday's spend"
+};
 
 interface CreateRuleModalProps {
   campaignId: string;
@@ -11,8 +51,12 @@ interface CreateRuleModalProps {
 interface ConditionForm {
   tempId: string;
   field: string;
+  isCustomField: boolean; // Field is a free-form metric expression
   operator: ComparisonOperator;
-  value: number;
+  valueText: string; // A number or a metric expression
+  window: InsightsWindow;
+  change?: ConditionChange;
+  confidence?: ConfidenceLevel;
   logicalOperator?: LogicalOperator;
 }
 
@@ -21,25 +65,69 @@ export function CreateRuleModal({ campaignId, onClose, onRuleCreated }: CreateRu
     name: '',
     description: '',
     actionType: 'PAUSE_CAMPAIGN' as ActionType,
-    actionParameters: {} as Record<string, string | number | boolean>
+    actionParameters: {} as Record<string, string | number | boolean>,
+    priority: '0',
+    stopProcessing: false,
+    cooldownMinutes: '',
+    maxTriggerCount: '',
+    maxTriggerPeriod: 'day' as TriggerCap['period'],
+    targetMode: 'campaign' as 'campaign' | 'scope',
+    scopeAdAccountId: '',
+    scopeCampaignIds: '',
+    scopeNamePattern: '',
+    scopeObjectives: '',
+    scopeStatuses: [] as CampaignStatus[],
+    scopeTags: '',
+    minImpressions: '',
+    minClicks: '',
+    minSpend: '',
+    minDaysRunning: '',
+    scheduleStart: '',
+    scheduleEnd: '',
+    scheduleWeekdays: [] as Weekday[],
+    scheduleTimezone: '',
+    scheduleStartDate: '',
+    scheduleEndDate: '',
+    notificationChannels: [] as string[]
   });
 
   const [conditions, setConditions] = useState<ConditionForm[]>([
     {
       tempId: uuidv4(),
       field: 'spend',
+      isCustomField: false,
       operator: '>',
-      value: 0,
+      valueText: '0',
+      window: DEFAULT_INSIGHTS_WINDOW,
       logicalOperator: undefined
     }
   ]);
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [notificationPreview, setNotificationPreview] = useState<{ message?: string; error?: string } | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+
+  // Channels a SEND_NOTIFICATION action can deliver to
+  useEffect(() => {
+    fetch('/api/automation/channels')
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) setChannels(result.data);
+      })
+      .catch(err => console.error('Error fetching notification channels:', err));
+  }, []);
+
+  const templates = getRuleTemplates();
+  const [templateId, setTemplateId] = useState('');
+  const [templateValues, setTemplateValues] = useState<TemplateValues>({});
+  const selectedTemplate = templates.find(template => template.id === templateId);
 
   const comparisonOperators: ComparisonOperator[] = ['>', '<', '>=', '<=', '=', '!='];
   const logicalOperators: LogicalOperator[] = ['AND', 'OR'];
-  const actionTypes: ActionType[] = ['PAUSE_CAMPAIGN', 'ADJUST_BUDGET', 'LOG_EVENT', 'SEND_NOTIFICATION'];
+  const actionTypes: ActionType[] = ['PAUSE_CAMPAIGN', 'RESUME_CAMPAIGN', 'ADJUST_BUDGET', 'LOG_EVENT', 'SEND_NOTIFICATION'];
+  const campaignStatuses: CampaignStatus[] = ['ACTIVE', 'PAUSED', 'DELETED', 'ARCHIVED'];
 
   const addCondition = () => {
     setConditions([
@@ -47,8 +135,10 @@ export function CreateRuleModal({ campaignId, onClose, onRuleCreated }: CreateRu
       {
         tempId: uuidv4(),
         field: 'spend',
+        isCustomField: false,
         operator: '>',
-        value: 0,
+        valueText: '0',
+        window: DEFAULT_INSIGHTS_WINDOW,
         logicalOperator: 'AND'
       }
     ]);
@@ -66,6 +156,210 @@ export function CreateRuleModal({ campaignId, onClose, onRuleCreated }: CreateRu
     ));
   };
 
+  const selectTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    setTemplateId(id);
+    setTemplateValues(template ? getTemplateDefaults(template) : {});
+  };
+
+  // Replace the form's name, conditions and action with the selected template's
+  const applyTemplate = () => {
+    if (!selectedTemplate) return;
+
+    const templateErrors = validateTemplateValues(selectedTemplate, templateValues);
+    if (templateErrors.length > 0) {
+      setError(templateErrors.join('; '));
+      return;
+    }
+
+    const rule = instantiateRuleTemplate(selectedTemplate.id, templateValues)!;
+    setError('');
+    setFormData({
+      ...formData,
+      name: rule.name,
+      description: rule.description,
+      actionType: rule.actionType,
+      actionParameters: rule.actionParameters || {}
+    });
+
+    if (Array.isArray(rule.conditions)) {
+      setConditions(rule.conditions.map(condition => ({
+        tempId: uuidv4(),
+        field: condition.field,
+        isCustomField: !AVAILABLE_METRICS.some(metric => metric.key === condition.field),
+        operator: condition.operator,
+        valueText: condition.valueExpression ?? String(condition.value),
+        window: condition.window || DEFAULT_INSIGHTS_WINDOW,
+        change: condition.change,
+        confidence: condition.confidence,
+        logicalOperator: condition.logicalOperator
+      })));
+    }
+  };
+
+  const isNumericValue = (valueText: string) => /^\s*-?(\d+\.?\d*|\.\d+)\s*$/.test(valueText);
+
+  const parseList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+
+  const buildScope = (): RuleScope => {
+    const scope: RuleScope = {};
+    const campaignIds = parseList(formData.scopeCampaignIds);
+    const objectives = parseList(formData.scopeObjectives);
+    const tags = parseList(formData.scopeTags);
+
+    if (formData.scopeAdAccountId.trim()) scope.adAccountId = formData.scopeAdAccountId.trim();
+    if (campaignIds.length > 0) scope.campaignIds = campaignIds;
+    if (formData.scopeNamePattern.trim()) scope.namePattern = formData.scopeNamePattern.trim();
+    if (objectives.length > 0) scope.objectives = objectives;
+    if (formData.scopeStatuses.length > 0) scope.statuses = formData.scopeStatuses;
+    if (tags.length > 0) scope.tags = tags;
+
+    return scope;
+  };
+
+  // Confidence checks only apply to rate metrics compared with an inequality
+  const supportsConfidence = (condition: ConditionForm) =>
+    !condition.isCustomField && !condition.change && !['=', '!='].includes(condition.operator) &&
+    AVAILABLE_METRICS.some(metric => metric.key === condition.field && metric.type === 'percentage');
+
+  const buildDataRequirements = (): DataRequirements | undefined => {
+    const requirements: DataRequirements = {};
+
+    if (formData.minImpressions) requirements.minImpressions = parseInt(formData.minImpressions);
+    if (formData.minClicks) requirements.minClicks = parseInt(formData.minClicks);
+    if (formData.minSpend) requirements.minSpend = parseFloat(formData.minSpend);
+    if (formData.minDaysRunning) requirements.minDaysRunning = parseInt(formData.minDaysRunning);
+
+    return Object.keys(requirements).length > 0 ? requirements : undefined;
+  };
+
+  const buildSchedule = (): RuleSchedule | undefined => {
+    const schedule: RuleSchedule = {};
+
+    if (formData.scheduleStart || formData.scheduleEnd) {
+      schedule.hours = { start: formData.scheduleStart, end: formData.scheduleEnd };
+    }
+    if (formData.scheduleWeekdays.length > 0) schedule.weekdays = formData.scheduleWeekdays;
+    if (formData.scheduleTimezone.trim()) schedule.timezone = formData.scheduleTimezone.trim();
+    if (formData.scheduleStartDate) schedule.startDate = formData.scheduleStartDate;
+    if (formData.scheduleEndDate) schedule.endDate = formData.scheduleEndDate;
+
+    return Object.keys(schedule).length > 0 ? schedule : undefined;
+  };
+
+  const toggleScheduleWeekday = (weekday: Weekday) => {
+    setFormData({
+      ...formData,
+      scheduleWeekdays: formData.scheduleWeekdays.includes(weekday)
+        ? formData.scheduleWeekdays.filter(day => day !== weekday)
+        : [...formData.scheduleWeekdays, weekday]
+    });
+  };
+
+  const toggleScopeStatus = (status: CampaignStatus) => {
+    setFormData({
+      ...formData,
+      scopeStatuses: formData.scopeStatuses.includes(status)
+        ? formData.scopeStatuses.filter(s => s !== status)
+        : [...formData.scopeStatuses, status]
+    });
+  };
+
+  /**
+   * Build the rule from the form, throwing when the form is incomplete
+   */
+  const buildRuleData = (): CreateRuleForm => {
+    if (conditions.some(c => !c.field.trim() || !c.valueText.trim())) {
+      throw new Error('All conditions must be properly filled out');
+    }
+
+    // Validate custom expressions before they reach the server
+    conditions.forEach((c, index) => {
+      const fieldError = c.isCustomField ? validateMetricExpression(c.field) : null;
+      const valueError = isNumericValue(c.valueText) ? null : validateMetricExpression(c.valueText);
+      if (fieldError || valueError) {
+        throw new Error(`Condition ${index + 1}: ${fieldError || valueError}`);
+      }
+    });
+
+    if (conditions.some(c => c.window.preset === 'custom' && (!c.window.since || !c.window.until))) {
+      throw new Error('Custom lookback windows need both a start and an end date');
+    }
+
+    if (!formData.scheduleStart !== !formData.scheduleEnd) {
+      throw new Error('Active hours need both a start and an end time');
+    }
+
+    // Only send the parameters the selected action accepts
+    const actionParameters = Object.fromEntries(
+      Object.entries(formData.actionParameters).filter(([key]) => key in ACTION_PARAMETERS[formData.actionType])
+    );
+
+    return {
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+      campaignId: formData.targetMode === 'campaign' ? campaignId : undefined,
+      scope: formData.targetMode === 'scope' ? buildScope() : undefined,
+      conditions: conditions.map(c => ({
+        field: c.field.trim(),
+        operator: c.operator,
+        value: isNumericValue(c.valueText) ? parseFloat(c.valueText) : 0,
+        valueExpression: isNumericValue(c.valueText) ? undefined : c.valueText.trim(),
+        window: c.window,
+        change: c.change,
+        confidence: supportsConfidence(c) ? c.confidence : undefined,
+        logicalOperator: c.logicalOperator
+      })),
+      actionType: formData.actionType,
+      actionParameters: Object.keys(actionParameters).length > 0
+        ? actionParameters
+        : undefined,
+      priority: parseInt(formData.priority) || 0,
+      stopProcessing: formData.stopProcessing || undefined,
+      cooldownMinutes: formData.cooldownMinutes ? parseFloat(formData.cooldownMinutes) : undefined,
+      maxTriggers: formData.maxTriggerCount
+        ? { count: parseInt(formData.maxTriggerCount), period: formData.maxTriggerPeriod }
+        : undefined,
+      notificationChannels: formData.actionType === 'SEND_NOTIFICATION' && formData.notificationChannels.length > 0
+        ? formData.notificationChannels
+        : undefined,
+      dataRequirements: buildDataRequirements(),
+      schedule: buildSchedule()
+    };
+  };
+
+  /**
+   * Render the notification message against the current campaign with a dry run
+   */
+  const previewNotification = async () => {
+    setPreviewLoading(true);
+
+    try {
+      const response = await fetch('/api/automation/rules/evaluate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ rule: buildRuleData(), campaignIds: [campaignId] }),
+      });
+
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to preview the notification');
+      }
+
+      const [campaignResult] = result.data.results;
+      setNotificationPreview(campaignResult?.error
+        ? { error: campaignResult.error }
+        : { message: campaignResult?.notificationPreview });
+    } catch (err) {
+      setNotificationPreview({ error: err instanceof Error ? err.message : 'Failed to preview the notification' });
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -77,26 +371,7 @@ export function CreateRuleModal({ campaignId, onClose, onRuleCreated }: CreateRu
         throw new Error('Rule name is required');
       }
 
-      if (conditions.some(c => !c.field || c.value === null || c.value === undefined)) {
-        throw new Error('All conditions must be properly filled out');
-      }
-
-      // Prepare the rule data
-      const ruleData: CreateRuleForm = {
-        name: formData.name.trim(),
-        description: formData.description.trim(),
-        campaignId,
-        conditions: conditions.map(c => ({
-          field: c.field,
-          operator: c.operator,
-          value: c.value,
-          logicalOperator: c.logicalOperator
-        })),
-        actionType: formData.actionType,
-        actionParameters: Object.keys(formData.actionParameters).length > 0 
-          ? formData.actionParameters 
-          : undefined
-      };
+      const ruleData = buildRuleData();
 
       // Submit the rule
       const response = await fetch('/api/automation/rules', {
@@ -123,30 +398,138 @@ export function CreateRuleModal({ campaignId, onClose, onRuleCreated }: CreateRu
 
   const renderActionParameters = () => {
     switch (formData.actionType) {
-      case 'ADJUST_BUDGET':
+      case 'PAUSE_CAMPAIGN': {
+        const { resumeAfterMinutes, resumeNextDay } = formData.actionParameters;
+        const resumeMode = resumeNextDay ? 'next_day' : resumeAfterMinutes !== undefined ? 'after' : 'never';
+        const setResumeMode = (mode: string) => {
+          const actionParameters = { ...formData.actionParameters };
+          delete actionParameters.resumeAfterMinutes;
+          delete actionParameters.resumeNextDay;
+          if (mode === 'after') actionParameters.resumeAfterMinutes = 60;
+          if (mode === 'next_day') actionParameters.resumeNextDay = true;
+          setFormData({ ...formData, actionParameters });
+        };
+
         return (
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              New Budget Amount ($)
-            </label>
-            <input
-              type="number"
-              min="0"
-              step="0.01"
-              className="w-full px-3 py-2 text-gray-600 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder-gray-600"
-              placeholder="Enter new budget amount"
-              onChange={(e) => setFormData({
-                ...formData,
-                actionParameters: {
-                  ...formData.actionParameters,
-                  newBudget: parseFloat(e.target.value) || 0
-                }
-              })}
-            />
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Reactivate Campaign
+              </label>
+              <select
+                className="w-full px-3 py-2 text-gray-600 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={resumeMode}
+                onChange={(e) => setResumeMode(e.target.value)}
+              >
+                <option value="never">Never (stay paused)</option>
+                <option value="after">After a duration</option>
+                <option value="next_day">At the start of the next day</option>
+              </select>
+            </div>
+            {resumeMode === 'after' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  After (minutes)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  className="w-full px-3 py-2 text-gray-600 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  value={String(resumeAfterMinutes ?? '')}
+                  onChange={(e) => setFormData({
+                    ...formData,
+                    actionParameters: {
+                      ...formData.actionParameters,
+                      resumeAfterMinutes: parseInt(e.target.value) || 1
+                    }
+                  })}
+                />
+              </div>
+            )}
           </div>
         );
+      }
+
+      case 'ADJUST_BUDGET': {
+        const budgetMode = BUDGET_CHANGE_MODES.find(mode => formData.actionParameters[mode] !== undefined) || 'newBudget';
+        const inputClass = 'w-full px-3 py-2 text-gray-600 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder-gray-600';
+        const setBudgetParameter = (key: string, value: string) => {
+          const actionParameters = { ...formData.actionParameters };
+          if (value === '') {
+            delete actionParameters[key];
+          } else {
+            actionParameters[key] = parseFloat(value) || 0;
+          }
+          setFormData({ ...formData, actionParameters });
+        };
+        const setBudgetMode = (mode: BudgetChangeMode) => {
+          const actionParameters = { ...formData.actionParameters };
+          const value = actionParameters[budgetMode];
+          BUDGET_CHANGE_MODES.forEach(key => delete actionParameters[key]);
+          actionParameters[mode] = value ?? 0;
+          setFormData({ ...formData, actionParameters });
+        };
+
+        return (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Budget Change
+                </label>
+                <select
+                  className={inputClass}
+                  value={budgetMode}
+                  onChange={(e) => setBudgetMode(e.target.value as BudgetChangeMode)}
+                >
+                  {BUDGET_CHANGE_MODES.map(mode => (
+                    <option key={mode} value={mode}>{BUDGET_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {budgetMode === 'changePercent' ? 'Percent (%)' : budgetMode === 'spendMultiple' ? 'Multiple (×)' : 'Amount ($)'}
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  className={inputClass}
+                  placeholder={budgetMode === 'changePercent' ? 'e.g. 20 or -10' : 'Enter a value'}
+                  value={formData.actionParameters[budgetMode] !== undefined ? String(formData.actionParameters[budgetMode]) : ''}
+                  onChange={(e) => setBudgetParameter(budgetMode, e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {([
+                ['minBudget', 'Min budget ($)'],
+                ['maxBudget', 'Max budget ($)'],
+                ['maxDailyChange', 'Max change/day ($)']
+              ] as const).map(([key, label]) => (
+                <div key={key}>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">{label}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className={inputClass}
+                    placeholder="Optional"
+                    value={formData.actionParameters[key] !== undefined ? String(formData.actionParameters[key]) : ''}
+                    onChange={(e) => setBudgetParameter(key, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      }
       
-      case 'SEND_NOTIFICATION':
+      case 'SEND_NOTIFICATION': {
+        const templateErrors = validateMessageTemplate(String(formData.actionParameters.message ?? ''), {
+          conditionCount: conditions.length
+        });
+
         return (
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -155,7 +538,8 @@ export function CreateRuleModal({ campaignId, onClose, onRuleCreated }: CreateRu
             <textarea
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               rows={3}
-              placeholder="Enter notification message"
+              placeholder="CTR of {{campaign.name}} dropped to {{insights.ctr | percent}}"
+              value={String(formData.actionParameters.message ?? '')}
               onChange={(e) => setFormData({
                 ...formData,
                 actionParameters: {
@@ -164,8 +548,63 @@ export function CreateRuleModal({ campaignId, onClose, onRuleCreated }: CreateRu
                 }
               })}
             />
+            <p className="mt-1 text-xs text-gray-500">
+              Placeholders: {'{{campaign.name}}'}, {'{{insights.spend | currency}}'}, {'{{insights.ctr | percent}}'},
+              {' {{metrics.roas | round:2}}'}, {'{{rule.name}}'}, {'{{conditions.1.actual}}'}.
+              Insights and metrics use the window of the first condition.
+            </p>
+            {templateErrors.map(templateError => (
+              <p key={templateError} className="mt-1 text-xs text-red-600">{templateError}</p>
+            ))}
+            <button
+              type="button"
+              onClick={previewNotification}
+              disabled={previewLoading || templateErrors.length > 0}
+              className="mt-2 px-3 py-1 text-xs border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {previewLoading ? 'Rendering...' : 'Preview with current data'}
+            </button>
+            {notificationPreview && (
+              notificationPreview.error ? (
+                <p className="mt-2 text-xs text-red-600">{notificationPreview.error}</p>
+              ) : (
+                <pre className="mt-2 p-2 bg-gray-50 border border-gray-200 rounded text-xs text-gray-800 whitespace-pre-wrap">
+                  {notificationPreview.message}
+                </pre>
+              )
+            )}
+
+            <label className="block text-sm font-medium text-gray-700 mt-4 mb-2">
+              Deliver To
+            </label>
+            {channels.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                No notification channels are configured; the notification is only written to the automation log.
+              </p>
+            ) : (
+              <div className="space-y-1">
+                {channels.map(channel => (
+                  <label key={channel.id} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      className="mr-2"
+                      checked={formData.notificationChannels.includes(channel.id)}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        notificationChannels: e.target.checked
+                          ? [...formData.notificationChannels, channel.id]
+                          : formData.notificationChannels.filter(id => id !== channel.id)
+                      })}
+                    />
+                    {channel.name}
+                    <span className="ml-2 text-xs text-gray-500">{channel.type}</span>
+                  </label>
+                ))}
+              </div>
+            )}
           </div>
         );
+      }
       
       default:
         return null;
@@ -201,6 +640,58 @@ export function CreateRuleModal({ campaignId, onClose, onRuleCreated }: CreateRu
             </div>
           )}
 
+          {/* Template */}
+          <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Start from a Template
+            </label>
+            <select
+              className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={templateId}
+              onChange={(e) => selectTemplate(e.target.value)}
+            >
+              <option value="">Blank rule</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+
+            {selectedTemplate && (
+              <div className="mt-3 space-y-3">
+                <p className="text-xs text-gray-500">{selectedTemplate.description}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {selectedTemplate.parameters.map((parameter) => (
+                    <div key={parameter.key} className={parameter.type === 'string' ? 'md:col-span-2' : ''}>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">
+                        {parameter.label}{parameter.unit && ` (${parameter.unit})`}
+                      </label>
+                      <input
+                        type={parameter.type === 'number' ? 'number' : 'text'}
+                        min={parameter.min}
+                        step="any"
+                        className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        value={templateValues[parameter.key] ?? ''}
+                        onChange={(e) => setTemplateValues({
+                          ...templateValues,
+                          [parameter.key]: parameter.type === 'number' && e.target.value !== ''
+                            ? parseFloat(e.target.value)
+                            : e.target.value
+                        })}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={applyTemplate}
+                  className="px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100"
+                >
+                  Apply Template
+                </button>
+              </div>
+            )}
+          </div>
+
           {/* Basic Information */}
           <div className="grid grid-cols-1 gap-4">
             <div>
@@ -229,6 +720,141 @@ export function CreateRuleModal({ campaignId, onClose, onRuleCreated }: CreateRu
                 onChange={(e) => setFormData({ ...formData, description: e.target.value })}
               />
             </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Priority
+                </label>
+                <input
+                  type="number"
+                  step="1"
+                  className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  value={formData.priority}
+                  onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+                />
+                <p className="text-xs text-gray-500 mt-1">Higher priority rules win when actions conflict</p>
+              </div>
+              <div className="flex items-center md:pt-6">
+                <label className="inline-flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={formData.stopProcessing}
+                    onChange={(e) => setFormData({ ...formData, stopProcessing: e.target.checked })}
+                  />
+                  Stop processing lower-priority rules when this rule matches
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {/* Target */}
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Target</h3>
+            <div className="flex space-x-6 mb-4 text-sm text-gray-700">
+              <label className="inline-flex items-center">
+                <input
+                  type="radio"
+                  className="mr-2"
+                  checked={formData.targetMode === 'campaign'}
+                  onChange={() => setFormData({ ...formData, targetMode: 'campaign' })}
+                />
+                This campaign ({campaignId})
+              </label>
+              <label className="inline-flex items-center">
+                <input
+                  type="radio"
+                  className="mr-2"
+                  checked={formData.targetMode === 'scope'}
+                  onChange={() => setFormData({ ...formData, targetMode: 'scope' })}
+                />
+                All matching campaigns
+              </label>
+            </div>
+
+            {formData.targetMode === 'scope' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Ad Account ID
+                  </label>
+                  <input
+                    type="text"
+                    className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Default ad account"
+                    value={formData.scopeAdAccountId}
+                    onChange={(e) => setFormData({ ...formData, scopeAdAccountId: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Campaign IDs
+                  </label>
+                  <input
+                    type="text"
+                    className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Comma separated"
+                    value={formData.scopeCampaignIds}
+                    onChange={(e) => setFormData({ ...formData, scopeCampaignIds: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Name Pattern
+                  </label>
+                  <input
+                    type="text"
+                    className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="e.g. Prospecting*"
+                    value={formData.scopeNamePattern}
+                    onChange={(e) => setFormData({ ...formData, scopeNamePattern: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Objectives
+                  </label>
+                  <input
+                    type="text"
+                    className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="e.g. OUTCOME_SALES, OUTCOME_LEADS"
+                    value={formData.scopeObjectives}
+                    onChange={(e) => setFormData({ ...formData, scopeObjectives: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Tags
+                  </label>
+                  <input
+                    type="text"
+                    className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Any of, comma separated"
+                    value={formData.scopeTags}
+                    onChange={(e) => setFormData({ ...formData, scopeTags: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Statuses
+                  </label>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-700">
+                    {campaignStatuses.map((status) => (
+                      <label key={status} className="inline-flex items-center">
+                        <input
+                          type="checkbox"
+                          className="mr-1"
+                          checked={formData.scopeStatuses.includes(status)}
+                          onChange={() => toggleScopeStatus(status)}
+                        />
+                        {status}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Conditions */}
@@ -254,15 +880,28 @@ export function CreateRuleModal({ campaignId, onClose, onRuleCreated }: CreateRu
                       </label>
                       <select
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-600"
-                        value={condition.field}
-                        onChange={(e) => updateCondition(condition.tempId, { field: e.target.value })}
+                        value={condition.isCustomField ? 'custom' : condition.field}
+                        onChange={(e) => updateCondition(condition.tempId, e.target.value === 'custom'
+                          ? { field: '', isCustomField: true }
+                          : { field: e.target.value, isCustomField: false }
+                        )}
                       >
                         {AVAILABLE_METRICS.map((metric) => (
                           <option key={metric.key} value={metric.key}>
                             {metric.label}
                           </option>
                         ))}
+                        <option value="custom">Custom expression…</option>
                       </select>
+                      {condition.isCustomField && (
+                        <input
+                          type="text"
+                          className="w-full mt-2 px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                          placeholder="e.g. spend / reach * 1000"
+                          value={condition.field}
+                          onChange={(e) => updateCondition(condition.tempId, { field: e.target.value })}
+                        />
+                      )}
                     </div>
 
                     <div>
@@ -285,11 +924,11 @@ export function CreateRuleModal({ campaignId, onClose, onRuleCreated }: CreateRu
                         Value
                       </label>
                       <input
-                        type="number"
-                        step="0.01"
+                        type="text"
                         className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        value={condition.value}
-                        onChange={(e) => updateCondition(condition.tempId, { value: parseFloat(e.target.value) || 0 })}
+                        placeholder="Number or expression, e.g. cpc * 1.5"
+                        value={condition.valueText}
+                        onChange={(e) => updateCondition(condition.tempId, { valueText: e.target.value })}
                       />
                     </div>
 
@@ -325,6 +964,95 @@ export function CreateRuleModal({ campaignId, onClose, onRuleCreated }: CreateRu
                       )}
                     </div>
                   </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Lookback Window
+                      </label>
+                      <select
+                        className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        value={condition.window.preset}
+                        onChange={(e) => updateCondition(condition.tempId, {
+                          window: { preset: e.target.value as InsightsWindow['preset'] }
+                        })}
+                      >
+                        {INSIGHTS_DATE_PRESETS.map((preset) => (
+                          <option key={preset.key} value={preset.key}>{preset.label}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Compare
+                      </label>
+                      <select
+                        className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        value={condition.change?.mode || 'value'}
+                        onChange={(e) => updateCondition(condition.tempId, {
+                          change: e.target.value === 'value'
+                            ? undefined
+                            : { mode: e.target.value as ChangeMode, baseline: 'previous_period' }
+                        })}
+                      >
+                        <option value="value">Metric value</option>
+                        <option value="percent">% change vs previous period</option>
+                        <option value="absolute">Change vs previous period</option>
+                      </select>
+                    </div>
+
+                    {supportsConfidence(condition) && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Confidence
+                        </label>
+                        <select
+                          className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          value={condition.confidence ?? ''}
+                          onChange={(e) => updateCondition(condition.tempId, {
+                            confidence: e.target.value ? parseFloat(e.target.value) as ConfidenceLevel : undefined
+                          })}
+                        >
+                          <option value="">No check</option>
+                          {CONFIDENCE_LEVELS.map((level) => (
+                            <option key={level} value={level}>{level * 100}%</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    {condition.window.preset === 'custom' && (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            From
+                          </label>
+                          <input
+                            type="date"
+                            className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            value={condition.window.since || ''}
+                            onChange={(e) => updateCondition(condition.tempId, {
+                              window: { ...condition.window, since: e.target.value }
+                            })}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            To
+                          </label>
+                          <input
+                            type="date"
+                            className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            value={condition.window.until || ''}
+                            onChange={(e) => updateCondition(condition.tempId, {
+                              window: { ...condition.window, until: e.target.value }
+                            })}
+                          />
+                        </div>
+                      </>
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
@@ -359,6 +1087,163 @@ export function CreateRuleModal({ campaignId, onClose, onRuleCreated }: CreateRu
             </div>
           </div>
 
+          {/* Trigger Frequency */}
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Trigger Frequency</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Cooldown (minutes)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="No cooldown"
+                  value={formData.cooldownMinutes}
+                  onChange={(e) => setFormData({ ...formData, cooldownMinutes: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Max Triggers
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Unlimited"
+                  value={formData.maxTriggerCount}
+                  onChange={(e) => setFormData({ ...formData, maxTriggerCount: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Per
+                </label>
+                <select
+                  className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  value={formData.maxTriggerPeriod}
+                  onChange={(e) => setFormData({ ...formData, maxTriggerPeriod: e.target.value as TriggerCap['period'] })}
+                >
+                  <option value="day">Day</option>
+                  <option value="week">Week</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          {/* Schedule */}
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-1">Schedule</h3>
+            <p className="text-xs text-gray-500 mb-4">
+              Only evaluate the rule at these times; after the end date it is deactivated
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Active From
+                </label>
+                <input
+                  type="time"
+                  className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  value={formData.scheduleStart}
+                  onChange={(e) => setFormData({ ...formData, scheduleStart: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Active Until
+                </label>
+                <input
+                  type="time"
+                  className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  value={formData.scheduleEnd}
+                  onChange={(e) => setFormData({ ...formData, scheduleEnd: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Timezone
+                </label>
+                <input
+                  type="text"
+                  className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Ad account timezone"
+                  value={formData.scheduleTimezone}
+                  onChange={(e) => setFormData({ ...formData, scheduleTimezone: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Start Date
+                </label>
+                <input
+                  type="date"
+                  className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  value={formData.scheduleStartDate}
+                  onChange={(e) => setFormData({ ...formData, scheduleStartDate: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  End Date
+                </label>
+                <input
+                  type="date"
+                  className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  value={formData.scheduleEndDate}
+                  onChange={(e) => setFormData({ ...formData, scheduleEndDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mt-4 text-sm text-gray-700">
+              {WEEKDAYS.map((weekday) => (
+                <label key={weekday} className="inline-flex items-center">
+                  <input
+                    type="checkbox"
+                    className="mr-1"
+                    checked={formData.scheduleWeekdays.includes(weekday)}
+                    onChange={() => toggleScheduleWeekday(weekday)}
+                  />
+                  {weekday.charAt(0).toUpperCase() + weekday.slice(1)}
+                </label>
+              ))}
+              <span className="text-xs text-gray-500 self-center">(none checked = every day)</span>
+            </div>
+          </div>
+
+          {/* Minimum Data */}
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-1">Minimum Data</h3>
+            <p className="text-xs text-gray-500 mb-4">
+              Skip evaluation (logged as insufficient data) until every window the conditions use has enough data
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {([
+                ['minImpressions', 'Impressions'],
+                ['minClicks', 'Clicks'],
+                ['minSpend', 'Spend ($)'],
+                ['minDaysRunning', 'Days Running']
+              ] as const).map(([key, label]) => (
+                <div key={key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {label}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    className="w-full px-3 py-2 border text-gray-600 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="None"
+                    value={formData[key]}
+                    onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
           {/* Form Actions */}
           <div className="flex justify-end space-x-4 pt-6 border-t border-gray-200">
             <button
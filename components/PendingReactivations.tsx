@@ -0,0 +1,50 @@
+import { format, formatDistanceToNow } from 'date-fns';
+import { PendingReactivation } from '@/types';
+
+interface PendingReactivationsProps {
+  reactivations: PendingReactivation[];
+  onCancel: (id: string) => void;
+}
+
+export function PendingReactivations({ reactivations, onCancel }: PendingReactivationsProps) {
+  return (
+    <ul className="space-y-3">
+      {reactivations.map(reactivation => {
+        const resumeAt = new Date(reactivation.resumeAt);
+        const overdue = resumeAt.getTime() <= Date.now();
+
+        return (
+          <li key={reactivation.id} className="border border-gray-200 rounded-lg p-3">
+            <div className="flex justify-between items-start">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {reactivation.campaignName || reactivation.campaignId}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Paused by &quot;{reactivation.ruleName}&quot; on {format(new Date(reactivation.pausedAt), 'MMM d, HH:mm')}
+                </p>
+              </div>
+              <button
+                onClick={() => onCancel(reactivation.id)}
+                className="text-xs text-gray-500 hover:text-red-600"
+                title="Keep the campaign paused"
+              >
+                Cancel
+              </button>
+            </div>
+            <p className={`mt-2 text-xs font-medium ${overdue ? 'text-amber-700' : 'text-green-700'}`}>
+              {overdue
+                ? 'Reactivates on the next automation run'
+                : `Reactivates ${format(resumeAt, 'MMM d, HH:mm')} (in ${formatDistanceToNow(resumeAt)})`}
+            </p>
+            {reactivation.lastError && (
+              <p className="mt-1 text-xs text-red-600">
+                {reactivation.attempts} failed attempt{reactivation.attempts === 1 ? '' : 's'}: {reactivation.lastError}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ActionType, AutomationRule } from '@/types';
+import { buildActionPlan, RuleMatch, sortRulesByPriority } from '../actionPlanner';
+import { makeRule } from './fixtures';
+
+const conditions = { id: 'root', type: 'group' as const, operator: 'AND' as const, conditions: [] };
+
+function rule(id: string, type: ActionType, overrides: Partial<AutomationRule> = {}): AutomationRule {
+  return makeRule(conditions, { id, name: id, slug: id, action: { type }, ...overrides });
+}
+
+const match = (rule: AutomationRule): RuleMatch => ({ rule, evaluation: { matched: true, conditions: [] } });
+
+const ids = (matches: RuleMatch[]) => matches.map(entry => entry.rule.id);
+
+describe('sortRulesByPriority', () => {
+  it('orders by priority, then oldest first', () => {
+    const rules = [
+      rule('low', 'SEND_NOTIFICATION', { priority: -1 }),
+      rule('newer', 'SEND_NOTIFICATION', { createdAt: '2026-02-01T00:00:00Z' }),
+      rule('high', 'SEND_NOTIFICATION', { priority: 5 }),
+      rule('older', 'SEND_NOTIFICATION', { createdAt: '2025-12-01T00:00:00Z' })
+    ];
+    expect(sortRulesByPriority(rules).map(entry => entry.id)).toEqual(['high', 'older', 'newer', 'low']);
+  });
+});
+
+describe('buildActionPlan', () => {
+  it('lets a pause win over budget changes and resumes, whatever their priority', () => {
+    const plan = buildActionPlan([
+      match(rule('budget', 'ADJUST_BUDGET', { priority: 10 })),
+      match(rule('resume', 'RESUME_CAMPAIGN', { priority: 5 })),
+      match(rule('pause', 'PAUSE_CAMPAIGN'))
+    ]);
+
+    expect(ids(plan.actions)).toEqual(['pause']);
+    expect(plan.suppressed.map(entry => [entry.rule.id, entry.suppressedBy])).toEqual([
+      ['budget', 'pause'],
+      ['resume', 'pause']
+    ]);
+  });
+
+  it('applies only the highest-priority budget change', () => {
+    const plan = buildActionPlan([
+      match(rule('small', 'ADJUST_BUDGET')),
+      match(rule('large', 'ADJUST_BUDGET', { priority: 2 }))
+    ]);
+
+    expect(ids(plan.actions)).toEqual(['large']);
+    expect(plan.suppressed[0].reason).toContain('higher-priority budget change from rule "large"');
+  });
+
+  it('keeps a single pause', () => {
+    const plan = buildActionPlan([
+      match(rule('first', 'PAUSE_CAMPAIGN')),
+      match(rule('second', 'PAUSE_CAMPAIGN', { createdAt: '2026-03-01T00:00:00Z' }))
+    ]);
+    expect(ids(plan.actions)).toEqual(['first']);
+    expect(ids(plan.suppressed)).toEqual(['second']);
+  });
+
+  it('never suppresses notifications because of other actions', () => {
+    const plan = buildActionPlan([
+      match(rule('pause', 'PAUSE_CAMPAIGN')),
+      match(rule('notify', 'SEND_NOTIFICATION')),
+      match(rule('log', 'LOG_EVENT'))
+    ]);
+
+    expect(ids(plan.actions)).toEqual(['pause', 'notify', 'log']);
+    expect(plan.suppressed).toEqual([]);
+  });
+
+  it('suppresses every rule below a matched stop-processing rule', () => {
+    const plan = buildActionPlan([
+      match(rule('top', 'SEND_NOTIFICATION', { priority: 3 })),
+      match(rule('stop', 'ADJUST_BUDGET', { priority: 2, stopProcessing: true })),
+      match(rule('below', 'PAUSE_CAMPAIGN', { priority: 1 }))
+    ]);
+
+    expect(ids(plan.actions)).toEqual(['top', 'stop']);
+    expect(plan.suppressed).toHaveLength(1);
+    expect(plan.suppressed[0]).toMatchObject({ suppressedBy: 'stop' });
+    expect(plan.suppressed[0].rule.id).toBe('below');
+  });
+
+  it('judges action sequences by every step', () => {
+    const sequence = rule('sequence', 'SEND_NOTIFICATION', {
+      actions: [{ type: 'SEND_NOTIFICATION' }, { type: 'ADJUST_BUDGET', parameters: { changePercent: 10 } }]
+    });
+    const plan = buildActionPlan([match(sequence), match(rule('pause', 'PAUSE_CAMPAIGN'))]);
+
+    expect(ids(plan.actions)).toEqual(['pause']);
+    expect(ids(plan.suppressed)).toEqual(['sequence']);
+  });
+});
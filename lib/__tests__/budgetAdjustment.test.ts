@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActionExecutionResult, CampaignBudget, RuleAction } from '@/types';
+import { ActionExecutor } from '../actionExecutor';
+import { AutomationEngine } from '../automationEngine';
+import { InMemoryAutomationRepository } from '../automationRepository';
+import { calculateBudgetChange, describeBudgetChange, needsYesterdaySpend } from '../budgetAdjustment';
+import { MetaAdsService } from '../metaAdsService';
+import { makeCampaignData } from './fixtures';
+
+const daily = (amount: number): CampaignBudget => ({ type: 'daily', amount });
+
+describe('calculateBudgetChange', () => {
+  it('sets, scales or shifts the current budget', () => {
+    expect(calculateBudgetChange({ newBudget: 150 }, daily(100)).newBudget).toBe(150);
+    expect(calculateBudgetChange({ changePercent: 20 }, daily(100)).newBudget).toBe(120);
+    expect(calculateBudgetChange({ changePercent: -15 }, daily(33.33)).newBudget).toBe(28.33);
+    expect(calculateBudgetChange({ changeAmount: -30 }, daily(100)).newBudget).toBe(70);
+    expect(calculateBudgetChange({ spendMultiple: 1.5 }, daily(100), { yesterdaySpend: 80 }).newBudget).toBe(120);
+  });
+
+  it('keeps the budget type and previous amount', () => {
+    expect(calculateBudgetChange({ changePercent: 10 }, { type: 'lifetime', amount: 1000 })).toEqual({
+      budgetType: 'lifetime',
+      previousBudget: 1000,
+      newBudget: 1100,
+      limitedBy: undefined
+    });
+  });
+
+  it('holds the budget within maxDailyChange of the start of the day', () => {
+    const change = calculateBudgetChange({ changePercent: 50, maxDailyChange: 40 }, daily(130), { dayStartBudget: 100 });
+    expect(change).toMatchObject({ newBudget: 140, limitedBy: 'maxDailyChange' });
+
+    const decrease = calculateBudgetChange({ changeAmount: -80, maxDailyChange: 40 }, daily(100));
+    expect(decrease).toMatchObject({ newBudget: 60, limitedBy: 'maxDailyChange' });
+  });
+
+  it('applies minBudget and maxBudget after maxDailyChange', () => {
+    expect(calculateBudgetChange({ changePercent: 50, maxDailyChange: 100, maxBudget: 120 }, daily(100)))
+      .toMatchObject({ newBudget: 120, limitedBy: 'maxBudget' });
+    expect(calculateBudgetChange({ changePercent: -90, minBudget: 25 }, daily(100)))
+      .toMatchObject({ newBudget: 25, limitedBy: 'minBudget' });
+  });
+
+  it('never goes below zero', () => {
+    expect(calculateBudgetChange({ changeAmount: -500 }, daily(100)).newBudget).toBe(0);
+  });
+
+  it('throws when an input is missing', () => {
+    expect(() => calculateBudgetChange({ changePercent: 10 }, null))
+      .toThrowError('The current campaign budget is not available to adjust');
+    expect(() => calculateBudgetChange({ spendMultiple: 2 }, daily(100), { yesterdaySpend: null }))
+      .toThrowError("Yesterday's spend is not available to scale the budget from");
+    expect(() => calculateBudgetChange({}, daily(100)))
+      .toThrowError('ADJUST_BUDGET needs newBudget, changePercent, changeAmount or spendMultiple');
+  });
+
+  it('sets an absolute budget without knowing the current one', () => {
+    expect(calculateBudgetChange({ newBudget: 50 }, null)).toMatchObject({ previousBudget: null, newBudget: 50 });
+  });
+});
+
+describe('needsYesterdaySpend', () => {
+  it('only asks for spend when scaling by it', () => {
+    expect(needsYesterdaySpend({ spendMultiple: 1.2 })).toBe(true);
+    expect(needsYesterdaySpend({ changePercent: 10 })).toBe(false);
+  });
+});
+
+describe('describeBudgetChange', () => {
+  it('shows the change and its limit', () => {
+    expect(describeBudgetChange({ budgetType: 'daily', previousBudget: 100, newBudget: 120, limitedBy: 'maxBudget' }))
+      .toBe('daily budget $100.00 → $120.00 (limited by maxBudget)');
+    expect(describeBudgetChange({ budgetType: 'lifetime', previousBudget: null, newBudget: 50 }))
+      .toBe('lifetime budget unknown → $50.00');
+  });
+});
+
+describe('daily change limit in the engine', () => {
+  let budget: number;
+
+  class BudgetExecutor implements ActionExecutor {
+    readonly driver = 'simulated';
+
+    async execute(_campaignId: string, action: RuleAction): Promise<ActionExecutionResult> {
+      budget = Number(action.parameters?.newBudget);
+      return { success: true, action: action.type, timestamp: new Date(), simulated: true };
+    }
+  }
+
+  beforeEach(() => {
+    budget = 100;
+    AutomationEngine.setRepository(new InMemoryAutomationRepository());
+    AutomationEngine.setActionExecutor(new BudgetExecutor());
+    vi.spyOn(MetaAdsService, 'getCampaignBudget').mockImplementation(async () => daily(budget));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    AutomationEngine.addRule({
+      name: 'Scale up',
+      campaignId: 'campaign-1',
+      conditions: [{ field: 'spend', operator: '>', value: 0 }],
+      action: { type: 'ADJUST_BUDGET', parameters: { changeAmount: 40, maxDailyChange: 50 } },
+      isActive: true
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const runAt = async (iso: string, accountTimezone: string) => {
+    vi.setSystemTime(new Date(iso));
+    await AutomationEngine.processCampaignRules(makeCampaignData({ accountTimezone }));
+  };
+
+  it('limits changes within one day of the account timezone', async () => {
+    // 23:00 and 23:30 on May 31 in Los Angeles
+    await runAt('2026-06-01T06:00:00Z', 'America/Los_Angeles');
+    await runAt('2026-06-01T06:30:00Z', 'America/Los_Angeles');
+    expect(budget).toBe(150);
+  });
+
+  it('starts a new day at local midnight rather than UTC midnight', async () => {
+    // 23:00 on May 31 and 00:30 on June 1 in Los Angeles, both on June 1 in UTC
+    await runAt('2026-06-01T06:00:00Z', 'America/Los_Angeles');
+    await runAt('2026-06-01T07:30:00Z', 'America/Los_Angeles');
+    expect(budget).toBe(180);
+  });
+});
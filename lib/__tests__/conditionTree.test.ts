@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { ConditionGroup, ConditionGroupInput, RuleConditionInput } from '@/types';
+import {
+  flattenConditionTree,
+  isConditionGroup,
+  migrateFlatConditions,
+  normalizeConditionTree
+} from '../conditionTree';
+import { AutomationEngine } from '../automationEngine';
+import { makeCampaignData, makeRule } from './fixtures';
+
+const condition = (field: string, logicalOperator?: 'AND' | 'OR'): RuleConditionInput => ({
+  field,
+  operator: '>',
+  value: 1,
+  ...(logicalOperator ? { logicalOperator } : {})
+});
+
+// Render a tree as text, e.g. "(a OR b) AND c", to compare its shape
+function render(group: ConditionGroupInput): string {
+  return group.conditions
+    .map(node => (isConditionGroup(node) ? `(${render(node)})` : node.field))
+    .join(` ${group.operator} `);
+}
+
+describe('migrateFlatConditions', () => {
+  it('keeps a single operator in one group', () => {
+    const tree = migrateFlatConditions([condition('a'), condition('b', 'OR'), condition('c', 'OR')]);
+    expect(render(tree)).toBe('a OR b OR c');
+  });
+
+  it('keeps the old left-to-right evaluation when operators change', () => {
+    const tree = migrateFlatConditions([condition('a'), condition('b', 'OR'), condition('c', 'AND')]);
+    expect(render(tree)).toBe('(a OR b) AND c');
+  });
+
+  it('wraps again on every change of operator', () => {
+    const tree = migrateFlatConditions([
+      condition('a'), condition('b', 'AND'), condition('c', 'OR'), condition('d', 'AND')
+    ]);
+    expect(render(tree)).toBe('((a AND b) OR c) AND d');
+  });
+
+  it('drops the logical operator from migrated conditions', () => {
+    const tree = migrateFlatConditions([condition('a'), condition('b', 'OR')]);
+    expect(tree.conditions[1]).not.toHaveProperty('logicalOperator');
+  });
+});
+
+describe('normalizeConditionTree', () => {
+  it('assigns ids to every group and condition and keeps existing ones', () => {
+    const tree = normalizeConditionTree({
+      id: 'root',
+      type: 'group',
+      operator: 'AND',
+      conditions: [
+        { ...condition('a'), id: 'kept' },
+        { type: 'group', operator: 'OR', conditions: [condition('b'), condition('c')] }
+      ]
+    });
+
+    expect(tree.id).toBe('root');
+    expect(tree.conditions[0].id).toBe('kept');
+    const nested = tree.conditions[1] as ConditionGroup;
+    expect(nested.id).toEqual(expect.any(String));
+    expect(nested.conditions.every(node => typeof node.id === 'string' && node.id.length > 0)).toBe(true);
+  });
+
+  it('migrates legacy flat lists', () => {
+    const tree = normalizeConditionTree([condition('a'), condition('b', 'OR'), condition('c', 'AND')]);
+    expect(render(tree)).toBe('(a OR b) AND c');
+  });
+
+  it('falls back to AND for unknown group operators', () => {
+    const tree = normalizeConditionTree({
+      type: 'group',
+      operator: 'XOR' as 'AND',
+      conditions: [condition('a')]
+    });
+    expect(tree.operator).toBe('AND');
+  });
+
+  it('strips logical operators from tree conditions', () => {
+    const tree = normalizeConditionTree({ type: 'group', operator: 'OR', conditions: [condition('a', 'AND')] });
+    expect(tree.conditions[0]).not.toHaveProperty('logicalOperator');
+  });
+});
+
+describe('flattenConditionTree', () => {
+  it('lists leaf conditions depth first', () => {
+    const tree = normalizeConditionTree({
+      type: 'group',
+      operator: 'AND',
+      conditions: [
+        condition('a'),
+        { type: 'group', operator: 'OR', conditions: [condition('b'), { type: 'group', operator: 'AND', conditions: [condition('c')] }] },
+        condition('d')
+      ]
+    });
+    expect(flattenConditionTree(tree).map(leaf => leaf.field)).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
+
+describe('condition tree evaluation', () => {
+  // spend is 100 and ctr is 1 in the fixture campaign
+  const spendAbove = (value: number): RuleConditionInput => ({ field: 'spend', operator: '>', value });
+  const ctrBelow = (value: number): RuleConditionInput => ({ field: 'ctr', operator: '<', value });
+
+  const matches = (tree: ConditionGroupInput) =>
+    AutomationEngine.evaluateRule(makeRule(normalizeConditionTree(tree)), makeCampaignData()).matched;
+
+  it('gives nested groups precedence over the outer operator', () => {
+    // true OR (false AND false) is true, while (true OR false) AND false would not be
+    expect(matches({
+      type: 'group',
+      operator: 'OR',
+      conditions: [
+        spendAbove(50),
+        { type: 'group', operator: 'AND', conditions: [spendAbove(500), ctrBelow(0.5)] }
+      ]
+    })).toBe(true);
+
+    expect(matches({
+      type: 'group',
+      operator: 'AND',
+      conditions: [
+        { type: 'group', operator: 'OR', conditions: [spendAbove(50), spendAbove(500)] },
+        ctrBelow(0.5)
+      ]
+    })).toBe(false);
+  });
+
+  it('reports every leaf condition it evaluated', () => {
+    const evaluation = AutomationEngine.evaluateRule(
+      makeRule(normalizeConditionTree({ type: 'group', operator: 'AND', conditions: [spendAbove(50), ctrBelow(2)] })),
+      makeCampaignData()
+    );
+    expect(evaluation.matched).toBe(true);
+    expect(evaluation.conditions.map(result => [result.field, result.actualValue, result.passed])).toEqual([
+      ['spend', 100, true],
+      ['ctr', 1, true]
+    ]);
+  });
+});
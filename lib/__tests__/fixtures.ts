@@ -0,0 +1,53 @@
+import { AutomationRule, CampaignInsights, CampaignWithInsights, ConditionGroup } from '@/types';
+
+/**
+ * Shared test data: a campaign with last-month insights and a rule around a condition tree
+ */
+export function makeInsights(overrides: Partial<CampaignInsights> = {}): CampaignInsights {
+  return {
+    spend: '100',
+    clicks: '50',
+    impressions: '5000',
+    ctr: '1',
+    cpc: '2',
+    cpm: '20',
+    reach: '4000',
+    frequency: '1.25',
+    date_start: '2026-09-01',
+    date_stop: '2026-09-30',
+    ...overrides
+  };
+}
+
+export function makeCampaignData(overrides: Partial<CampaignWithInsights> = {}): CampaignWithInsights {
+  return {
+    campaign: {
+      id: 'campaign-1',
+      account_id: 'act_1',
+      name: 'Prospecting',
+      status: 'ACTIVE',
+      objective: 'OUTCOME_SALES',
+      created_time: '2026-01-01T00:00:00Z',
+      updated_time: '2026-01-01T00:00:00Z'
+    },
+    insights: makeInsights(),
+    calculatedMetrics: { roas: 2, costPerAction: 10, conversionRate: 20 },
+    lastUpdated: '2026-10-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+export function makeRule(conditions: ConditionGroup, overrides: Partial<AutomationRule> = {}): AutomationRule {
+  return {
+    id: 'rule-1',
+    slug: 'rule-1',
+    name: 'Rule 1',
+    campaignId: 'campaign-1',
+    conditions,
+    action: { type: 'SEND_NOTIFICATION' },
+    isActive: true,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    ...overrides
+  };
+}
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConditionEvaluation } from '@/types';
+import { renderMessageTemplate, validateMessageTemplate } from '../messageTemplate';
+import { buildRuleNotification } from '../notificationChannels';
+import { makeCampaignData, makeInsights, makeRule } from './fixtures';
+
+const rule = makeRule({ id: 'root', type: 'group', operator: 'AND', conditions: [] }, {
+  name: 'Low CTR',
+  slug: 'low-ctr',
+  description: ''
+});
+
+const lastWeek = { preset: 'last_7d' as const };
+
+// Last-month insights at the top level and last-7-day insights in the window the rule evaluates
+const campaignData = makeCampaignData({
+  windows: {
+    last_7d: {
+      window: lastWeek,
+      insights: makeInsights({ spend: '1234.5', ctr: '0.456' }),
+      calculatedMetrics: { roas: 1.8765, costPerAction: null, conversionRate: 3 }
+    }
+  }
+});
+
+const conditions: ConditionEvaluation[] = [
+  { conditionId: 'c1', field: 'ctr', operator: '<', threshold: 0.5, actualValue: 0.456, passed: true, window: lastWeek },
+  { conditionId: 'c2', field: 'spend', operator: '>', threshold: 100, actualValue: 100, passed: false, window: { preset: 'last_month' } }
+];
+
+const render = (template: string, withConditions = true) =>
+  renderMessageTemplate(template, { rule, campaignData, conditions: withConditions ? conditions : undefined });
+
+describe('renderMessageTemplate', () => {
+  it('fills in campaign, rule and condition values', () => {
+    expect(render('{{rule.name}} ({{rule.slug}}) fired for {{campaign.name}} [{{campaign.status}}]'))
+      .toBe('Low CTR (low-ctr) fired for Prospecting [ACTIVE]');
+    expect(render('{{conditions.1.field}} {{conditions.1.operator}} {{conditions.1.threshold}}: {{conditions.1.passed}} over {{conditions.1.window}}'))
+      .toBe('ctr < 0.5: true over Last 7 days');
+  });
+
+  it('reads insights and metrics from the window the conditions were evaluated over', () => {
+    expect(render('{{insights.spend | currency}}, {{insights.ctr | percent}}, {{metrics.roas | round:2}}'))
+      .toBe('$1,234.50, 0.46%, 1.88');
+  });
+
+  it('falls back to the default window without conditions', () => {
+    expect(render('{{insights.spend}} at {{metrics.roas}} ROAS', false)).toBe('100 at 2 ROAS');
+  });
+
+  it('shows each condition its own actual value', () => {
+    expect(render('{{conditions.1.actual}} / {{conditions.2.actual | currency:EUR}}')).toBe('0.46 / €100.00');
+  });
+
+  it('renders missing values as n/a', () => {
+    expect(render('{{metrics.costPerAction}} {{rule.description}}')).toBe('n/a n/a');
+    expect(render('{{conditions.1.actual}}', false)).toBe('n/a');
+  });
+
+  it('renders n/a when the evaluated window was not loaded', () => {
+    const unloaded = conditions.map(condition => ({ ...condition, window: { preset: 'last_30d' as const } }));
+    expect(renderMessageTemplate('{{insights.spend}}', { rule, campaignData, conditions: unloaded })).toBe('n/a');
+  });
+
+  it('rejects templates that do not validate', () => {
+    expect(() => render('{{insights.budget}}')).toThrowError(/insights has spend/);
+  });
+});
+
+describe('validateMessageTemplate', () => {
+  it('accepts known placeholders and helpers', () => {
+    expect(validateMessageTemplate('{{campaign.name}}: {{insights.spend | currency:EUR}} {{conditions.2.actual | round:1}}',
+      { conditionCount: 2 })).toEqual([]);
+  });
+
+  it.each([
+    ['{{campaign.name', 'Unterminated placeholder "{{campaign.name"'],
+    ['{{}}', 'Empty placeholder "{{}}"'],
+    ['{{budget.daily}}', '{{budget.daily}}: unknown placeholder; use campaign, insights, metrics, rule, conditions'],
+    ['{{campaign.name | round}}', '{{campaign.name}}: round only applies to numbers'],
+    ['{{insights.spend | bold}}', '{{insights.spend}}: unknown helper "bold"; use currency, percent, round'],
+    ['{{insights.spend | currency:euro}}', '{{insights.spend}}: currency needs a three-letter currency code, e.g. currency:EUR'],
+    ['{{insights.ctr | percent:12}}', '{{insights.ctr}}: percent takes a number of decimals from 0 to 9, e.g. percent:2'],
+    ['{{insights.spend | round | percent}}', '{{insights.spend}} can have only one helper'],
+    ['{{conditions.0.actual}}', '{{conditions.0.actual}}: conditions are numbered from 1']
+  ])('rejects %j', (template, message) => {
+    expect(validateMessageTemplate(template)).toEqual([message]);
+  });
+
+  it('checks condition numbers against the rule', () => {
+    expect(validateMessageTemplate('{{conditions.3.actual}}', { conditionCount: 2 }))
+      .toEqual(['{{conditions.3.actual}}: the rule has 2 conditions']);
+  });
+});
+
+describe('buildRuleNotification', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const action = { type: 'SEND_NOTIFICATION' as const, parameters: { message: 'CTR at {{conditions.1.actual | percent}}' } };
+
+  it('leads with the rendered message and reports the evaluated window', () => {
+    const notification = buildRuleNotification(rule, campaignData, action, conditions, new Date('2026-10-01T00:00:00Z'));
+
+    expect(notification.subject).toBe('[Automation] Low CTR: Prospecting');
+    expect(notification.message).toBe([
+      'CTR at 0.46%',
+      '',
+      'Campaign: Prospecting (campaign-1)',
+      'Rule: Low CTR',
+      'Spend (Last 7 days): $1234.50, CTR: 0.46%'
+    ].join('\n'));
+  });
+
+  it('sends templates saved before validation unrendered', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const notification = buildRuleNotification(rule, campaignData, {
+      type: 'SEND_NOTIFICATION',
+      parameters: { message: 'Spend {{insights.budget}}' }
+    });
+    expect(notification.message.split('\n')[0]).toBe('Spend {{insights.budget}}');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compileMetricExpression,
+  evaluateMetricExpression,
+  isKnownMetric,
+  MetricExpressionError,
+  parseMetricExpression,
+  validateMetricExpression
+} from '../metricExpression';
+
+const metrics: Record<string, number | null> = {
+  spend: 200,
+  reach: 4000,
+  clicks: 50,
+  impressions: 10000,
+  roas: null,
+  'actions.purchase': 4
+};
+
+const evaluate = (source: string) =>
+  evaluateMetricExpression(parseMetricExpression(source), name => metrics[name] ?? null);
+
+describe('evaluateMetricExpression', () => {
+  it('applies the usual arithmetic precedence', () => {
+    expect(evaluate('spend / reach * 1000')).toBe(50);
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('10 - 4 - 3')).toBe(3);
+    expect(evaluate('-clicks + 60')).toBe(10);
+  });
+
+  it('supports min, max and abs', () => {
+    expect(evaluate('min(spend, clicks, 75)')).toBe(50);
+    expect(evaluate('max(spend, clicks)')).toBe(200);
+    expect(evaluate('abs(clicks - spend)')).toBe(150);
+  });
+
+  it('reads action counts and scientific notation', () => {
+    expect(evaluate('spend / actions.purchase')).toBe(50);
+    expect(evaluate('1e3 + .5')).toBe(1000.5);
+  });
+
+  it('returns null for missing metrics and division by zero', () => {
+    expect(evaluate('roas * 2')).toBeNull();
+    expect(evaluate('spend / (clicks - 50)')).toBeNull();
+    expect(evaluate('max(roas, spend)')).toBeNull();
+  });
+});
+
+describe('parseMetricExpression', () => {
+  it.each([
+    ['', 'Expression is empty at position 1'],
+    ['spend +', 'Unexpected end of expression at position 8'],
+    ['spend $ 2', 'Unexpected character "$" at position 7'],
+    ['budget * 2', 'Unknown metric "budget" at position 1'],
+    ['sqrt(spend)', 'Unknown function "sqrt" at position 1'],
+    ['abs(spend, reach)', 'Wrong number of arguments for abs() at position 1'],
+    ['(spend', 'Unexpected end of expression at position 7'],
+    ['spend reach', 'Unexpected "reach" at position 7']
+  ])('rejects %j', (source, message) => {
+    expect(() => parseMetricExpression(source)).toThrowError(message);
+  });
+
+  it('reports the position of the error', () => {
+    try {
+      parseMetricExpression('spend * ?');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(MetricExpressionError);
+      expect((error as MetricExpressionError).position).toBe(8);
+    }
+  });
+
+  it('rejects overly long expressions', () => {
+    expect(validateMetricExpression(Array(200).fill('spend').join(' + '))).toMatch(/longer than 500 characters/);
+  });
+
+  it('never evaluates code', () => {
+    expect(validateMetricExpression('constructor.constructor("return 1")()')).not.toBeNull();
+    expect(validateMetricExpression('process.exit(1)')).not.toBeNull();
+  });
+});
+
+describe('isKnownMetric', () => {
+  it('accepts available metrics and action counts', () => {
+    expect(isKnownMetric('spend')).toBe(true);
+    expect(isKnownMetric('actions.offsite_conversion.fb_pixel_purchase')).toBe(true);
+    expect(isKnownMetric('budget')).toBe(false);
+  });
+});
+
+describe('compileMetricExpression', () => {
+  it('reuses the parsed syntax tree', () => {
+    expect(compileMetricExpression('spend / clicks')).toBe(compileMetricExpression('spend / clicks'));
+  });
+});
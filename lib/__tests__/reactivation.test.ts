@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActionExecutionResult, ActionType, RuleAction } from '@/types';
+import { ActionExecutor } from '../actionExecutor';
+import { AutomationEngine } from '../automationEngine';
+import { InMemoryAutomationRepository } from '../automationRepository';
+import { makeCampaignData } from './fixtures';
+
+class RecordingExecutor implements ActionExecutor {
+  readonly driver = 'simulated';
+  executed: ActionType[] = [];
+  failWith?: string;
+
+  async execute(_campaignId: string, action: RuleAction): Promise<ActionExecutionResult> {
+    this.executed.push(action.type);
+    return this.failWith
+      ? { success: false, action: action.type, timestamp: new Date(), simulated: true, error: this.failWith }
+      : { success: true, action: action.type, timestamp: new Date(), simulated: true };
+  }
+}
+
+let executor: RecordingExecutor;
+
+function addRule(type: ActionType, parameters?: RuleAction['parameters']) {
+  return AutomationEngine.addRule({
+    name: `${type} rule`,
+    campaignId: 'campaign-1',
+    conditions: [{ field: 'spend', operator: '>', value: 0 }],
+    action: { type, parameters },
+    isActive: true
+  });
+}
+
+const runAt = async (iso: string, overrides: Parameters<typeof makeCampaignData>[0] = {}) => {
+  vi.setSystemTime(new Date(iso));
+  await AutomationEngine.processCampaignRules(makeCampaignData(overrides));
+};
+
+const resumeTimes = () => AutomationEngine.getPendingReactivations().map(r => r.resumeAt);
+
+beforeEach(() => {
+  executor = new RecordingExecutor();
+  AutomationEngine.setRepository(new InMemoryAutomationRepository());
+  AutomationEngine.setActionExecutor(executor);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('scheduling reactivations', () => {
+  it('schedules a reactivation after resumeAfterMinutes', async () => {
+    addRule('PAUSE_CAMPAIGN', { resumeAfterMinutes: 90 });
+    await runAt('2026-06-01T10:00:00Z');
+
+    expect(executor.executed).toEqual(['PAUSE_CAMPAIGN']);
+    expect(resumeTimes()).toEqual(['2026-06-01T11:30:00.000Z']);
+  });
+
+  it('resumes the next day at local midnight across a daylight saving change', async () => {
+    addRule('PAUSE_CAMPAIGN', { resumeNextDay: true });
+    // Noon on March 8, 2026 in New York, the day clocks move forward
+    await runAt('2026-03-08T16:00:00Z', { accountTimezone: 'America/New_York' });
+
+    expect(resumeTimes()).toEqual(['2026-03-09T04:00:00.000Z']);
+  });
+});
+
+describe('pause rules on paused campaigns', () => {
+  it('skips campaigns that are already paused', async () => {
+    addRule('PAUSE_CAMPAIGN', { resumeAfterMinutes: 60 });
+    await runAt('2026-06-01T10:00:00Z', {
+      campaign: { ...makeCampaignData().campaign, status: 'PAUSED' }
+    });
+
+    expect(executor.executed).toEqual([]);
+    expect(resumeTimes()).toEqual([]);
+    expect(AutomationEngine.getLogs()[0]).toMatchObject({
+      triggered: false,
+      reason: 'Skipped: campaign is already paused',
+      metadata: { skipReason: 'campaign_paused' }
+    });
+  });
+
+  it('never pushes a pending reactivation back', async () => {
+    addRule('PAUSE_CAMPAIGN', { resumeAfterMinutes: 60 });
+    await runAt('2026-06-01T10:00:00Z');
+    // The campaign data is fetched before the pause shows up as its status
+    await runAt('2026-06-01T10:30:00Z');
+    await runAt('2026-06-01T10:45:00Z');
+
+    expect(executor.executed).toEqual(['PAUSE_CAMPAIGN']);
+    expect(resumeTimes()).toEqual(['2026-06-01T11:00:00.000Z']);
+    expect(AutomationEngine.getLogs()[0].reason).toBe('Skipped: campaign is paused and awaiting its scheduled reactivation');
+  });
+
+  it('cancels the pending reactivation when a rule resumes the campaign', async () => {
+    addRule('PAUSE_CAMPAIGN', { resumeAfterMinutes: 60 });
+    await runAt('2026-06-01T10:00:00Z');
+
+    AutomationEngine.getRules().forEach(rule => AutomationEngine.updateRule(rule.id, { isActive: false }));
+    addRule('RESUME_CAMPAIGN');
+    await runAt('2026-06-01T10:30:00Z', { campaign: { ...makeCampaignData().campaign, status: 'PAUSED' } });
+
+    expect(executor.executed).toEqual(['PAUSE_CAMPAIGN', 'RESUME_CAMPAIGN']);
+    expect(resumeTimes()).toEqual([]);
+  });
+});
+
+describe('processReactivations', () => {
+  beforeEach(async () => {
+    addRule('PAUSE_CAMPAIGN', { resumeAfterMinutes: 60 });
+    await runAt('2026-06-01T10:00:00Z');
+    executor.executed = [];
+  });
+
+  it('waits until the reactivation is due', async () => {
+    await AutomationEngine.processReactivations(new Date('2026-06-01T10:59:00Z'));
+    expect(executor.executed).toEqual([]);
+    expect(resumeTimes()).toHaveLength(1);
+  });
+
+  it('resumes due campaigns once', async () => {
+    await AutomationEngine.processReactivations(new Date('2026-06-01T11:00:00Z'));
+    await AutomationEngine.processReactivations(new Date('2026-06-01T11:05:00Z'));
+
+    expect(executor.executed).toEqual(['RESUME_CAMPAIGN']);
+    expect(resumeTimes()).toEqual([]);
+  });
+
+  it('keeps failed reactivations pending and counts the attempts', async () => {
+    executor.failWith = 'Graph API unavailable';
+    await AutomationEngine.processReactivations(new Date('2026-06-01T11:00:00Z'));
+    await AutomationEngine.processReactivations(new Date('2026-06-01T11:05:00Z'));
+
+    expect(AutomationEngine.getPendingReactivations()).toEqual([
+      expect.objectContaining({ attempts: 2, lastError: 'Graph API unavailable' })
+    ]);
+  });
+});
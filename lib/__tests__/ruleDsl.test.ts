@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { AutomationRule, ConditionGroup } from '@/types';
+import { AutomationEngine } from '../automationEngine';
+import { isConditionGroup } from '../conditionTree';
+import { formatRuleDsl, parseRuleDsl, RuleDslError } from '../ruleDsl';
+
+const format = (source: string) => formatRuleDsl(AutomationEngine.createDraftRule(parseRuleDsl(source)));
+
+// Rule configuration without generated ids and timestamps
+const configOf = (rule: AutomationRule) => JSON.parse(JSON.stringify(rule, (key, value) =>
+  ['id', 'createdAt', 'updatedAt'].includes(key) ? undefined : value
+));
+
+const FULL_RULE = [
+  'RULE "Stop losers" SLUG "stop-losers"',
+  'DESCRIPTION "Pause \\"bad\\" campaigns"',
+  'ON ACCOUNT "act_1" NAME "Prospecting*" OBJECTIVE OUTCOME_SALES STATUS ACTIVE TAG "evergreen"',
+  'WHEN spend > 1000 AND (roas < 1.5 OR cpc / ctr > 0.025) AND ctr CHANGE % < -20',
+  'OVER last_7d',
+  'THEN PAUSE_CAMPAIGN resumeAfterMinutes=90',
+  'THEN SEND_NOTIFICATION message="Paused {{campaign.name}}" ON FAILURE continue',
+  'PRIORITY 10',
+  'STOP',
+  'COOLDOWN 1d',
+  'MAX 3 PER day',
+  'HOLD 3 RUNS FOR 1h',
+  'RECOVER roas >= 2',
+  'NOTIFY "ops-slack"',
+  'REQUIRE impressions 1000, days 3',
+  'SCHEDULE 09:00-17:00 DAYS mon, tue TZ "Europe/Berlin" FROM 2024-01-01 UNTIL 2024-03-31'
+].join('\n');
+
+describe('rule DSL round trip', () => {
+  it('prints canonical source back unchanged', () => {
+    expect(format(FULL_RULE)).toBe(FULL_RULE);
+  });
+
+  it('parses printed source into the same rule', () => {
+    const rule = AutomationEngine.createDraftRule(parseRuleDsl(FULL_RULE));
+    const reparsed = AutomationEngine.createDraftRule(parseRuleDsl(formatRuleDsl(rule)));
+    expect(configOf(reparsed)).toEqual(configOf(rule));
+  });
+
+  it('normalizes source written in another order or style', () => {
+    const source = [
+      '# Clauses may come in any order',
+      'COOLDOWN 24h',
+      'THEN PAUSE_CAMPAIGN',
+      'WHEN spend > 1e3 AND ctr < 2.5e-1',
+      'RULE "Reordered" SLUG "reordered"'
+    ].join('\n');
+
+    const printed = format(source);
+    expect(printed).toBe([
+      'RULE "Reordered" SLUG "reordered"',
+      'WHEN spend > 1000 AND ctr < 0.25',
+      'THEN PAUSE_CAMPAIGN',
+      'COOLDOWN 1d'
+    ].join('\n'));
+    expect(format(printed)).toBe(printed);
+  });
+
+  it('keeps ON ALL', () => {
+    const printed = format('WHEN spend > 5 THEN PAUSE_CAMPAIGN ON ALL');
+    expect(printed).toContain('\nON ALL\n');
+    expect(AutomationEngine.createDraftRule(parseRuleDsl(printed)).scope).toEqual({});
+  });
+
+  it('keeps numbers printed in exponent notation', () => {
+    const printed = format('WHEN cpc > 0.0000001 AND impressions < 1e21 THEN LOG_EVENT');
+    expect(printed).toContain('cpc > 1e-7 AND impressions < 1e+21');
+    expect(format(printed)).toBe(printed);
+  });
+
+  it('keeps per-condition windows when conditions use different ones', () => {
+    const source = [
+      'RULE "Windows" SLUG "windows"',
+      'WHEN spend > 5 IN last_3d OR ctr < 1 IN 2024-01-01..2024-01-31',
+      'THEN ADJUST_BUDGET changePercent=-10, maxDailyChange=50'
+    ].join('\n');
+    expect(format(source)).toBe(source);
+  });
+});
+
+describe('parseRuleDsl', () => {
+  it('builds the condition tree with parenthesized groups', () => {
+    const form = parseRuleDsl('WHEN spend > 100 OR roas < 1 AND cpc > 2 THEN PAUSE_CAMPAIGN');
+    const root = form.conditions as ConditionGroup;
+    expect(root.operator).toBe('OR');
+    expect(isConditionGroup(root.conditions[1])).toBe(true);
+  });
+
+  it.each([
+    ['RULE "x"\nWHEN spend >> 5\nTHEN PAUSE_CAMPAIGN', 'Expected a value at line 2, column 13'],
+    ['RULE "x"\nTHEN PAUSE_CAMPAIGN', 'Missing WHEN clause at line 2, column 20'],
+    ['WHEN spend > 5\nTHEN PAUSE_CAMPAIGN\nCOOLDOWN 1h\nCOOLDOWN 2h', 'Duplicate COOLDOWN clause at line 4, column 1']
+  ])('reports the location of errors in %j', (source, message) => {
+    expect(() => parseRuleDsl(source)).toThrowError(RuleDslError);
+    expect(() => parseRuleDsl(source)).toThrowError(message);
+  });
+});
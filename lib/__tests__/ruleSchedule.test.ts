@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeRuleSchedule,
+  getLocalDate,
+  getNextEligibleTime,
+  getNextLocalMidnight,
+  hasScheduleEnded,
+  isWithinSchedule,
+  resolveScheduleTimezone,
+  validateRuleSchedule
+} from '../ruleSchedule';
+
+const at = (iso: string) => new Date(iso);
+
+describe('isWithinSchedule', () => {
+  it('checks hours in the schedule timezone', () => {
+    const schedule = { hours: { start: '09:00', end: '17:00' } };
+    // 13:59 UTC is 09:59 in New York (EDT)
+    expect(isWithinSchedule(schedule, at('2026-06-01T13:59:00Z'), 'America/New_York')).toBe(true);
+    expect(isWithinSchedule(schedule, at('2026-06-01T12:59:00Z'), 'America/New_York')).toBe(false);
+    // The end is exclusive
+    expect(isWithinSchedule(schedule, at('2026-06-01T21:00:00Z'), 'America/New_York')).toBe(false);
+  });
+
+  it('wraps hours past midnight', () => {
+    const schedule = { hours: { start: '22:00', end: '06:00' } };
+    expect(isWithinSchedule(schedule, at('2026-06-01T23:30:00Z'), 'UTC')).toBe(true);
+    expect(isWithinSchedule(schedule, at('2026-06-01T05:59:00Z'), 'UTC')).toBe(true);
+    expect(isWithinSchedule(schedule, at('2026-06-01T12:00:00Z'), 'UTC')).toBe(false);
+  });
+
+  it('checks weekdays and dates by the local date', () => {
+    // Monday 02:00 UTC is still Sunday evening in Los Angeles
+    const now = at('2026-06-01T02:00:00Z');
+    expect(isWithinSchedule({ weekdays: ['mon'] }, now, 'UTC')).toBe(true);
+    expect(isWithinSchedule({ weekdays: ['mon'] }, now, 'America/Los_Angeles')).toBe(false);
+    expect(isWithinSchedule({ startDate: '2026-06-01' }, now, 'America/Los_Angeles')).toBe(false);
+    expect(isWithinSchedule({ endDate: '2026-05-31' }, now, 'America/Los_Angeles')).toBe(true);
+  });
+
+  it('allows rules without a schedule', () => {
+    expect(isWithinSchedule(undefined, at('2026-06-01T00:00:00Z'), 'UTC')).toBe(true);
+  });
+});
+
+describe('hasScheduleEnded', () => {
+  it('ends after the local end date', () => {
+    const schedule = { endDate: '2026-05-31' };
+    expect(hasScheduleEnded(schedule, at('2026-06-01T02:00:00Z'), 'America/New_York')).toBe(false);
+    expect(hasScheduleEnded(schedule, at('2026-06-01T04:00:00Z'), 'America/New_York')).toBe(true);
+  });
+});
+
+describe('getNextLocalMidnight', () => {
+  it('returns the next midnight on ordinary days', () => {
+    expect(getNextLocalMidnight(at('2026-06-01T12:00:00Z'), 'UTC').toISOString()).toBe('2026-06-02T00:00:00.000Z');
+    expect(getNextLocalMidnight(at('2026-06-01T12:00:00Z'), 'Asia/Kolkata').toISOString()).toBe('2026-06-01T18:30:00.000Z');
+  });
+
+  it('handles the 23-hour day when daylight saving time starts', () => {
+    // Midnight EST on March 8, 2026; the next midnight is EDT, 23 hours later
+    expect(getNextLocalMidnight(at('2026-03-08T05:00:00Z'), 'America/New_York').toISOString())
+      .toBe('2026-03-09T04:00:00.000Z');
+    expect(getNextLocalMidnight(at('2026-03-29T00:00:00Z'), 'Europe/London').toISOString())
+      .toBe('2026-03-29T23:00:00.000Z');
+  });
+
+  it('handles the 25-hour day when daylight saving time ends', () => {
+    // Midnight EDT on November 1, 2026; the next midnight is EST, 25 hours later
+    expect(getNextLocalMidnight(at('2026-11-01T04:00:00Z'), 'America/New_York').toISOString())
+      .toBe('2026-11-02T05:00:00.000Z');
+  });
+
+  it('returns the start of the day where the clocks skip midnight', () => {
+    // Santiago moves from 00:00 to 01:00 on September 6, 2026
+    const midnight = getNextLocalMidnight(at('2026-09-05T16:00:00Z'), 'America/Santiago');
+    expect(midnight.toISOString()).toBe('2026-09-06T04:00:00.000Z');
+    expect(getLocalDate(midnight, 'America/Santiago')).toBe('2026-09-06');
+  });
+});
+
+describe('getNextEligibleTime', () => {
+  it('returns now when the schedule already allows it', () => {
+    const now = at('2026-06-01T10:30:15Z');
+    expect(getNextEligibleTime({ hours: { start: '09:00', end: '17:00' } }, now, 'UTC')).toBe(now);
+  });
+
+  it('waits for the window to open later today', () => {
+    expect(getNextEligibleTime({ hours: { start: '09:00', end: '17:00' } }, at('2026-06-01T07:15:00Z'), 'UTC')?.toISOString())
+      .toBe('2026-06-01T09:00:00.000Z');
+  });
+
+  it('skips to the next eligible weekday across a daylight saving change', () => {
+    // Saturday evening before DST starts; weekday hours open Monday 09:00 EDT
+    const schedule = { hours: { start: '09:00', end: '17:00' }, weekdays: ['mon' as const, 'tue' as const] };
+    expect(getNextEligibleTime(schedule, at('2026-03-07T23:00:00Z'), 'America/New_York')?.toISOString())
+      .toBe('2026-03-09T13:00:00.000Z');
+  });
+
+  it('opens at local midnight on the start date', () => {
+    expect(getNextEligibleTime({ startDate: '2026-11-02' }, at('2026-11-01T12:00:00Z'), 'America/New_York')?.toISOString())
+      .toBe('2026-11-02T05:00:00.000Z');
+  });
+
+  it('returns null once the schedule has ended', () => {
+    expect(getNextEligibleTime({ endDate: '2026-05-31' }, at('2026-06-01T12:00:00Z'), 'UTC')).toBeNull();
+  });
+});
+
+describe('resolveScheduleTimezone', () => {
+  it('prefers the schedule, then the account, then UTC', () => {
+    expect(resolveScheduleTimezone({ timezone: 'Europe/Paris' }, 'America/New_York')).toBe('Europe/Paris');
+    expect(resolveScheduleTimezone({}, 'America/New_York')).toBe('America/New_York');
+    expect(resolveScheduleTimezone(undefined)).toBe('UTC');
+  });
+});
+
+describe('validateRuleSchedule', () => {
+  it('accepts a complete schedule', () => {
+    expect(validateRuleSchedule({
+      hours: { start: '22:00', end: '06:00' },
+      weekdays: ['mon', 'fri'],
+      timezone: 'Europe/Berlin',
+      startDate: '2026-01-01',
+      endDate: '2026-12-31'
+    })).toEqual([]);
+  });
+
+  it('reports every problem', () => {
+    expect(validateRuleSchedule({
+      hours: { start: '9:00', end: '17:00' },
+      weekdays: ['someday'],
+      timezone: 'Mars/Olympus',
+      startDate: '2026-12-31',
+      endDate: '2026-01-01'
+    })).toEqual([
+      'schedule.hours needs start and end times as HH:mm',
+      'schedule.weekdays must be a list of mon, tue, wed, thu, fri, sat, sun',
+      'schedule.timezone "Mars/Olympus" is not a valid IANA timezone',
+      'schedule.startDate must not be after schedule.endDate'
+    ]);
+    expect(validateRuleSchedule({ hours: { start: '10:00', end: '10:00' } }))
+      .toEqual(['schedule.hours start and end must differ']);
+    expect(validateRuleSchedule([])).toEqual(['schedule must be an object']);
+  });
+});
+
+describe('describeRuleSchedule', () => {
+  it('summarizes the schedule', () => {
+    expect(describeRuleSchedule({ hours: { start: '09:00', end: '17:00' }, weekdays: ['fri', 'mon'], endDate: '2026-12-31' }))
+      .toBe('09:00–17:00 · Mon, Fri · until 2026-12-31');
+    expect(describeRuleSchedule({})).toBe('Always');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { AutomationEngine } from '../automationEngine';
+import { InMemoryAutomationRepository } from '../automationRepository';
+import { describeRuleScope, getScopeAdAccountId, matchesRuleScope } from '../ruleScopes';
+import { makeCampaignData } from './fixtures';
+
+const campaign = makeCampaignData().campaign; // In account act_1
+
+describe('matchesRuleScope', () => {
+  it('matches listed campaigns and campaigns of the scope account', () => {
+    expect(matchesRuleScope({ campaignIds: ['campaign-1'] }, campaign, [], 'act_9')).toBe(true);
+    expect(matchesRuleScope({ campaignIds: ['campaign-2'] }, campaign, [], 'act_1')).toBe(false);
+    expect(matchesRuleScope({ adAccountId: '1' }, campaign, [], 'act_9')).toBe(true);
+  });
+
+  it('resolves scopes without candidates to the default account', () => {
+    expect(matchesRuleScope({}, campaign, [], 'act_1')).toBe(true);
+    expect(matchesRuleScope({ namePattern: 'prosp*' }, campaign, [], 'act_1')).toBe(true);
+    expect(matchesRuleScope({}, campaign, [], 'act_9')).toBe(false);
+    expect(matchesRuleScope({}, campaign, [], '')).toBe(false);
+  });
+
+  it('narrows candidates by name, objective, status and tags', () => {
+    const scope = { campaignIds: ['campaign-1'] };
+    expect(matchesRuleScope({ ...scope, namePattern: 'Retargeting*' }, campaign)).toBe(false);
+    expect(matchesRuleScope({ ...scope, objectives: ['OUTCOME_TRAFFIC'] }, campaign)).toBe(false);
+    expect(matchesRuleScope({ ...scope, statuses: ['PAUSED'] }, campaign)).toBe(false);
+    expect(matchesRuleScope({ ...scope, tags: ['evergreen'] }, campaign, ['evergreen'])).toBe(true);
+    expect(matchesRuleScope({ ...scope, tags: ['evergreen'] }, campaign, ['seasonal'])).toBe(false);
+  });
+});
+
+describe('getScopeAdAccountId', () => {
+  it('only falls back to the default account without campaigns or an account', () => {
+    expect(getScopeAdAccountId({}, 'act_1')).toBe('act_1');
+    expect(getScopeAdAccountId({ adAccountId: 'act_2' }, 'act_1')).toBe('act_2');
+    expect(getScopeAdAccountId({ campaignIds: ['campaign-1'] }, 'act_1')).toBe('');
+  });
+});
+
+describe('getRulesForCampaign', () => {
+  it('does not apply an empty scope without a default account, like the scheduler', () => {
+    AutomationEngine.setRepository(new InMemoryAutomationRepository());
+    AutomationEngine.addRule({
+      name: 'Everything',
+      scope: {},
+      conditions: [{ field: 'spend', operator: '>', value: 0 }],
+      action: { type: 'LOG_EVENT' },
+      isActive: true
+    });
+
+    // vitest.config.ts clears META_ADS_ACCOUNT_ID
+    expect(AutomationEngine.getRulesForCampaign(campaign)).toEqual([]);
+  });
+});
+
+describe('describeRuleScope', () => {
+  it('summarizes the scope', () => {
+    expect(describeRuleScope({ campaignIds: ['a', 'b'], statuses: ['ACTIVE'] })).toBe('2 campaigns · Status ACTIVE');
+    expect(describeRuleScope({})).toBe('All campaigns in the default account');
+  });
+});
@@ -0,0 +1,142 @@
+import axios, { AxiosInstance } from 'axios';
+import { ACTION_EXECUTOR_CONFIG, ActionExecutionResult, ActionExecutorDriver, RuleAction } from '@/types';
+
+/**
+ * Carries out rule actions against a campaign
+ */
+export interface ActionExecutor {
+  readonly driver: ActionExecutorDriver;
+  execute(campaignId: string, action: RuleAction): Promise<ActionExecutionResult>;
+}
+
+interface GraphRequest {
+  method: 'POST';
+  path: string;
+  body: Record<string, unknown>;
+}
+
+/**
+ * The Graph API call that applies an action, or null for actions that stay inside the
+ * app (logging and notifications). Budget actions arrive resolved to an absolute
+ * `newBudget` in dollars and a `budgetType`; the API takes cents.
+ */
+function toGraphRequest(campaignId: string, action: RuleAction): GraphRequest | null {
+  switch (action.type) {
+    case 'PAUSE_CAMPAIGN':
+      return { method: 'POST', path: `/${campaignId}`, body: { status: 'PAUSED' } };
+    case 'RESUME_CAMPAIGN':
+      return { method: 'POST', path: `/${campaignId}`, body: { status: 'ACTIVE' } };
+    case 'ADJUST_BUDGET':
+      return {
+        method: 'POST',
+        path: `/${campaignId}`,
+        body: {
+          [action.parameters?.budgetType === 'lifetime' ? 'lifetime_budget' : 'daily_budget']:
+            Math.round(Number(action.parameters?.newBudget) * 100)
+        }
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Only logs the Graph API calls it would make; every action succeeds
+ */
+export class SimulatedActionExecutor implements ActionExecutor {
+  readonly driver = 'simulated';
+
+  async execute(campaignId: string, action: RuleAction): Promise<ActionExecutionResult> {
+    console.log(`🎯 AUTOMATION ACTION TRIGGERED (simulated): ${action.type} for campaign ${campaignId}`, action.parameters || {});
+
+    const request = toGraphRequest(campaignId, action);
+    if (request) {
+      console.log(`📡 API call that would be made: ${request.method} ${ACTION_EXECUTOR_CONFIG.graphBaseUrl}${request.path}`, request.body);
+    }
+
+    return { success: true, action: action.type, timestamp: new Date(), simulated: true };
+  }
+}
+
+const MISSING_TOKEN_ERROR = 'META_ACCESS_TOKEN is not set; the live action executor cannot call the Graph API';
+
+/**
+ * Applies status and budget changes through the Meta Graph API. Graph API errors, and
+ * a missing access token, are returned in the result instead of being thrown.
+ */
+export class MetaGraphActionExecutor implements ActionExecutor {
+  readonly driver = 'live';
+  private readonly client: AxiosInstance;
+  private readonly configured: boolean;
+
+  constructor(
+    baseUrl: string = ACTION_EXECUTOR_CONFIG.graphBaseUrl,
+    accessToken: string = ACTION_EXECUTOR_CONFIG.accessToken
+  ) {
+    this.configured = accessToken !== '';
+    this.client = axios.create({
+      baseURL: baseUrl,
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      timeout: 30000,
+    });
+  }
+
+  async execute(campaignId: string, action: RuleAction): Promise<ActionExecutionResult> {
+    const timestamp = new Date();
+    const request = toGraphRequest(campaignId, action);
+
+    if (!request) {
+      console.log(`🎯 ${action.type} for campaign ${campaignId} needs no Graph API call`, action.parameters || {});
+      return { success: true, action: action.type, timestamp, simulated: false };
+    }
+
+    if (!this.configured) {
+      console.error(`❌ ${action.type} on campaign ${campaignId} not applied: ${MISSING_TOKEN_ERROR}`);
+      return { success: false, action: action.type, timestamp, simulated: false, error: MISSING_TOKEN_ERROR };
+    }
+
+    try {
+      console.log(`📡 Graph API call: ${request.method} ${request.path}`, request.body);
+      const response = await this.client.post(request.path, request.body);
+
+      // Graph answers updates with { success: true }
+      if (response.data?.success === false) {
+        return { success: false, action: action.type, timestamp, simulated: false, error: 'Graph API did not apply the change' };
+      }
+      return { success: true, action: action.type, timestamp, simulated: false };
+    } catch (error) {
+      const message = describeGraphError(error);
+      console.error(`❌ Graph API call for ${action.type} on campaign ${campaignId} failed: ${message}`);
+      return { success: false, action: action.type, timestamp, simulated: false, error: message };
+    }
+  }
+}
+
+/**
+ * Turn a failed request into a readable message, preferring the Graph API's own error
+ */
+function describeGraphError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const graphError = error.response?.data?.error;
+    if (graphError?.message) {
+      return `Graph API error${graphError.code ? ` ${graphError.code}` : ''}: ${graphError.message}`;
+    }
+    if (error.response) return `Graph API responded with status ${error.response.status}`;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Create the action executor selected by ACTION_EXECUTOR_CONFIG
+ */
+export function createActionExecutor(): ActionExecutor {
+  if (ACTION_EXECUTOR_CONFIG.driver === 'live') {
+    console.log(`⚡ Executing rule actions live against ${ACTION_EXECUTOR_CONFIG.graphBaseUrl}`);
+    if (!ACTION_EXECUTOR_CONFIG.accessToken) console.error(`❌ ${MISSING_TOKEN_ERROR}`);
+    return new MetaGraphActionExecutor();
+  }
+  return new SimulatedActionExecutor();
+}
@@ -0,0 +1,108 @@
+import { AutomationRule, RuleEvaluation } from '@/types';
+import { hasActionType } from './actionSequence';
+
+// A rule whose conditions matched for a campaign during a run
+export interface RuleMatch {
+  rule: AutomationRule;
+  evaluation: RuleEvaluation;
+}
+
+export interface SuppressedRuleMatch extends RuleMatch {
+  reason: string;
+  suppressedBy: string; // ID of the rule that won the conflict
+}
+
+// The single coherent set of actions to run for one campaign
+export interface ActionPlan {
+  actions: RuleMatch[];
+  suppressed: SuppressedRuleMatch[];
+}
+
+/**
+ * Compare rules from highest to lowest priority (oldest first on ties)
+ */
+function compareRulePriority(a: AutomationRule, b: AutomationRule): number {
+  return (b.priority ?? 0) - (a.priority ?? 0) ||
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+}
+
+/**
+ * Order rules from highest to lowest priority
+ */
+export function sortRulesByPriority(rules: AutomationRule[]): AutomationRule[] {
+  return [...rules].sort(compareRulePriority);
+}
+
+/**
+ * Resolve conflicts between matched rules for one campaign:
+ * - a matched rule with `stopProcessing` suppresses every lower-priority rule
+ * - pausing the campaign wins over any budget change or resume, whatever its priority
+ * - only the highest-priority budget change (and a single pause) is applied
+ * Logging and notification actions never conflict. Rules with action sequences are judged by
+ * every step they contain.
+ */
+export function buildActionPlan(matches: RuleMatch[]): ActionPlan {
+  const ordered = [...matches].sort((a, b) => compareRulePriority(a.rule, b.rule));
+  const plan: ActionPlan = { actions: [], suppressed: [] };
+
+  // Rules below a matched stop-processing rule never take part
+  const stopIndex = ordered.findIndex(match => match.rule.stopProcessing);
+  const eligible = stopIndex === -1 ? ordered : ordered.slice(0, stopIndex + 1);
+
+  if (stopIndex !== -1) {
+    const stopRule = ordered[stopIndex].rule;
+    for (const match of ordered.slice(stopIndex + 1)) {
+      plan.suppressed.push({
+        ...match,
+        reason: `Suppressed: higher-priority rule "${stopRule.name}" stops further processing`,
+        suppressedBy: stopRule.id
+      });
+    }
+  }
+
+  const pauseMatch = eligible.find(match => hasActionType(match.rule, 'PAUSE_CAMPAIGN'));
+  const budgetMatch = eligible.find(match => hasActionType(match.rule, 'ADJUST_BUDGET'));
+
+  for (const match of eligible) {
+    if (hasActionType(match.rule, 'PAUSE_CAMPAIGN') && match !== pauseMatch) {
+      plan.suppressed.push({
+        ...match,
+        reason: `Suppressed: campaign is already being paused by rule "${pauseMatch!.rule.name}"`,
+        suppressedBy: pauseMatch!.rule.id
+      });
+      continue;
+    }
+
+    if (hasActionType(match.rule, 'RESUME_CAMPAIGN') && pauseMatch && match !== pauseMatch) {
+      plan.suppressed.push({
+        ...match,
+        reason: `Suppressed: pausing the campaign (rule "${pauseMatch.rule.name}") takes precedence over resuming it`,
+        suppressedBy: pauseMatch.rule.id
+      });
+      continue;
+    }
+
+    if (hasActionType(match.rule, 'ADJUST_BUDGET') && match !== pauseMatch) {
+      if (pauseMatch) {
+        plan.suppressed.push({
+          ...match,
+          reason: `Suppressed: pausing the campaign (rule "${pauseMatch.rule.name}") takes precedence over budget changes`,
+          suppressedBy: pauseMatch.rule.id
+        });
+        continue;
+      }
+      if (match !== budgetMatch) {
+        plan.suppressed.push({
+          ...match,
+          reason: `Suppressed: higher-priority budget change from rule "${budgetMatch!.rule.name}" applies`,
+          suppressedBy: budgetMatch!.rule.id
+        });
+        continue;
+      }
+    }
+
+    plan.actions.push(match);
+  }
+
+  return plan;
+}
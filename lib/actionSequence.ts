@@ -0,0 +1,105 @@
+import {
+  ActionSequenceOutcome,
+  ActionSequenceResult,
+  ActionStepResult,
+  ActionType,
+  AutomationRule,
+  RuleAction,
+  RuleActionStep
+} from '@/types';
+
+/**
+ * The steps a rule runs when it fires: its action sequence, or its single action
+ */
+export function getActionSteps(rule: Pick<AutomationRule, 'action' | 'actions'>): RuleActionStep[] {
+  return rule.actions?.length ? rule.actions : [rule.action];
+}
+
+/**
+ * Whether any step of a rule's action sequence is of the given type
+ */
+export function hasActionType(rule: Pick<AutomationRule, 'action' | 'actions'>, type: ActionType): boolean {
+  return getActionSteps(rule).some(step => step.type === type);
+}
+
+/**
+ * Keep `action` in step with the first step of `actions`, so code that only looks at
+ * the primary action (logs, reports) still sees what the rule does first. An empty or
+ * null sequence is dropped.
+ */
+export function syncPrimaryAction<T extends Pick<AutomationRule, 'action' | 'actions'>>(rule: T): T {
+  if (!rule.actions?.length) {
+    const single = { ...rule };
+    delete single.actions;
+    return single;
+  }
+
+  const [first] = rule.actions;
+  return { ...rule, action: { type: first.type, parameters: first.parameters } };
+}
+
+/**
+ * Describe an action sequence as "PAUSE_CAMPAIGN → SEND_NOTIFICATION"
+ */
+export function describeActionSteps(steps: RuleAction[]): string {
+  return steps.map(step => step.type).join(' → ');
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : 'Unknown error';
+
+/**
+ * Run an action sequence in order. `execute` throws when an action fails; what happens
+ * next depends on the failed step's policy:
+ * - continue: carry on with the next step
+ * - stop (default): skip the remaining steps
+ * - compensate: skip the remaining steps and run the compensation of every completed
+ *   step, most recent first
+ */
+export async function runActionSequence(
+  steps: RuleActionStep[],
+  execute: (action: RuleAction) => Promise<void>
+): Promise<ActionSequenceResult> {
+  const results: ActionStepResult[] = steps.map((step, index) => ({
+    step: index + 1,
+    type: step.type,
+    parameters: step.parameters,
+    status: 'skipped'
+  }));
+
+  for (const [index, step] of steps.entries()) {
+    try {
+      await execute(step);
+      results[index].status = 'succeeded';
+      continue;
+    } catch (error) {
+      results[index].status = 'failed';
+      results[index].error = errorMessage(error);
+    }
+
+    const policy = step.onFailure || 'stop';
+    if (policy === 'continue') continue;
+
+    if (policy === 'compensate') {
+      for (let completed = index - 1; completed >= 0; completed--) {
+        const compensation = steps[completed].compensation;
+        if (results[completed].status !== 'succeeded' || !compensation) continue;
+
+        try {
+          await execute(compensation);
+          results[completed].status = 'compensated';
+          results[completed].compensation = { type: compensation.type, success: true };
+        } catch (error) {
+          results[completed].compensation = { type: compensation.type, success: false, error: errorMessage(error) };
+        }
+      }
+    }
+    break;
+  }
+
+  const succeeded = results.filter(result => result.status === 'succeeded').length;
+  const outcome: ActionSequenceOutcome = succeeded === results.length
+    ? 'succeeded'
+    : succeeded === 0 ? 'failed' : 'partial_failure';
+
+  return { outcome, steps: results };
+}
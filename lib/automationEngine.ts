@@ -4,132 +4,577 @@ import {
   RuleCondition, 
   CampaignWithInsights, 
   AutomationLog, 
-  ComparisonOperator
+  ComparisonOperator,
+  ConditionGroup,
+  ConditionGroupInput,
+  RuleConditionInput,
+  InsightsWindow,
+  WindowedInsights,
+  DEFAULT_INSIGHTS_WINDOW,
+  ChangeMode,
+  ConditionEvaluation,
+  RuleEvaluation,
+  AutomationLogEvaluation,
+  RuleDryRunResult,
+  CreateRuleForm,
+  Campaign,
+  RuleScope,
+  RuleVersion,
+  RuleVersionChangeType,
+  RuleAction,
+  ActionSequenceResult,
+  RuleHysteresisInput,
+  BudgetChange,
+  PendingReactivation,
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationDelivery
 } from '@/types';
 import { MetaAdsService } from './metaAdsService';
+import { AutomationRepository, createAutomationRepository } from './automationRepository';
+import { ActionExecutor, createActionExecutor } from './actionExecutor';
+import { calculateBudgetChange, describeBudgetChange, needsYesterdaySpend } from './budgetAdjustment';
+import { buildRuleNotification, deliverNotification, describeDeliveries, restoreChannelSecrets } from './notificationChannels';
+import { isConditionGroup, normalizeConditionTree } from './conditionTree';
+import { compileMetricExpression, evaluateMetricExpression } from './metricExpression';
+import { checkTriggerLimits, recordTrigger } from './triggerLimits';
+import { buildActionPlan, RuleMatch, sortRulesByPriority } from './actionPlanner';
+import { getRuleScope, getScopeAdAccountId, matchesRuleScope } from './ruleScopes';
+import { diffRules } from './ruleVersions';
+import { createUniqueSlug, slugify } from './ruleSlugs';
+import { describeActionSteps, getActionSteps, hasActionType, runActionSequence, syncPrimaryAction } from './actionSequence';
+import { advanceHysteresis, latchHysteresis, normalizeHysteresis } from './ruleHysteresis';
+import { checkDataRequirements, checkRateConfidence } from './dataGuards';
+import {
+  formatInTimezone,
+  getLocalDate,
+  getNextEligibleTime,
+  getNextLocalMidnight,
+  hasScheduleEnded,
+  isWithinSchedule,
+  resolveScheduleTimezone
+} from './ruleSchedule';
+import {
+  collectConditionWindows,
+  collectRuleWindows,
+  formatInsightsWindow,
+  getInsightsWindowKey,
+  getWindowData,
+  resolveBaselineWindow
+} from './insightsWindows';
 
 export class AutomationEngine {
-  private static logs: AutomationLog[] = [];
-  private static rules: AutomationRule[] = [];
+  private static repository: AutomationRepository = createAutomationRepository();
+  private static actionExecutor: ActionExecutor = createActionExecutor();
+
+  /**
+   * Replace the storage backend (e.g. an in-memory repository for testing)
+   */
+  static setRepository(repository: AutomationRepository): void {
+    this.repository = repository;
+  }
+
+  /**
+   * Replace how actions are carried out (e.g. a live executor pointed at a mock Graph API)
+   */
+  static setActionExecutor(executor: ActionExecutor): void {
+    this.actionExecutor = executor;
+  }
 
   /**
    * Add a new automation rule
    */
-  static addRule(rule: Omit<AutomationRule, 'id' | 'createdAt' | 'updatedAt' | 'conditions'> & { conditions: Omit<RuleCondition, 'id'>[] }): AutomationRule {
-    const newRule: AutomationRule = {
+  static addRule(
+    rule: Omit<AutomationRule, 'id' | 'slug' | 'createdAt' | 'updatedAt' | 'conditions' | 'hysteresis' | 'version'> & {
+      slug?: string; // Generated from the name when omitted
+      conditions: ConditionGroupInput | RuleConditionInput[];
+      hysteresis?: RuleHysteresisInput;
+    },
+    changedBy: string = 'system'
+  ): AutomationRule {
+    const newRule: AutomationRule = syncPrimaryAction({
       ...rule,
       id: uuidv4(),
+      slug: rule.slug || createUniqueSlug(rule.name, this.repository.getRules().map(r => r.slug)),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
-      conditions: rule.conditions.map(condition => ({
-        ...condition,
-        id: uuidv4()
-      }))
-    };
+      conditions: normalizeConditionTree(rule.conditions),
+      hysteresis: normalizeHysteresis(rule.hysteresis)
+    });
 
-    this.rules.push(newRule);
-    console.log(`✅ Added automation rule: ${newRule.name} (${newRule.id})`);
-    return newRule;
+    const savedRule = this.saveRuleVersion(null, newRule, 'created', changedBy);
+    console.log(`✅ Added automation rule: ${savedRule.name} (${savedRule.id})`);
+    return savedRule;
+  }
+
+  /**
+   * Save a configuration change as the rule's next version and record it in the history
+   */
+  private static saveRuleVersion(
+    previous: AutomationRule | null,
+    rule: AutomationRule,
+    changeType: RuleVersionChangeType,
+    changedBy: string,
+    restoredVersion?: number
+  ): AutomationRule {
+    const history = previous ? this.repository.getRuleVersions(rule.id) : [];
+    const version = Math.max(previous?.version ?? 0, ...history.map(entry => entry.version)) + 1;
+    const savedRule = this.repository.saveRule({ ...rule, version });
+
+    this.repository.addRuleVersion({
+      ruleId: rule.id,
+      version,
+      changeType,
+      changedBy,
+      changedAt: savedRule.updatedAt,
+      changes: diffRules(previous, savedRule),
+      restoredVersion,
+      rule: savedRule
+    });
+
+    return savedRule;
   }
 
   /**
    * Get all automation rules
    */
   static getRules(): AutomationRule[] {
-    return [...this.rules];
+    return this.repository.getRules();
+  }
+
+  /**
+   * Get a single rule by ID
+   */
+  static getRule(ruleId: string): AutomationRule | null {
+    return this.repository.getRule(ruleId);
+  }
+
+  /**
+   * Get a single rule by its slug
+   */
+  static getRuleBySlug(slug: string): AutomationRule | null {
+    return this.repository.getRules().find(rule => rule.slug === slug) || null;
+  }
+
+  /**
+   * Get the active rules whose scope includes a campaign and whose schedule allows
+   * evaluation at `now` (in the schedule's timezone, or else the ad account's)
+   */
+  static getRulesForCampaign(
+    campaign: Campaign,
+    accountTimezone?: string,
+    now: Date = new Date()
+  ): AutomationRule[] {
+    const tags = this.repository.getCampaignTags()[campaign.id] || [];
+    return this.repository.getRules().filter(rule =>
+      rule.isActive &&
+      matchesRuleScope(getRuleScope(rule), campaign, tags) &&
+      isWithinSchedule(rule.schedule, now, resolveScheduleTimezone(rule.schedule, accountTimezone))
+    );
   }
 
   /**
-   * Get rules for a specific campaign
+   * Deactivate the campaign's rules whose schedule end date has passed
    */
-  static getRulesForCampaign(campaignId: string): AutomationRule[] {
-    return this.rules.filter(rule => rule.campaignId === campaignId && rule.isActive);
+  private static deactivateEndedRules(campaignData: CampaignWithInsights, now: Date = new Date()): void {
+    const tags = this.repository.getCampaignTags()[campaignData.campaign.id] || [];
+
+    for (const rule of this.repository.getRules()) {
+      const timezone = resolveScheduleTimezone(rule.schedule, campaignData.accountTimezone);
+      if (!rule.isActive || !hasScheduleEnded(rule.schedule, now, timezone) ||
+          !matchesRuleScope(getRuleScope(rule), campaignData.campaign, tags)) {
+        continue;
+      }
+
+      console.log(`📅 Rule "${rule.name}" deactivated: schedule ended on ${rule.schedule!.endDate}`);
+      this.saveRuleVersion(rule, { ...rule, isActive: false, updatedAt: now.toISOString() }, 'deactivated', 'system');
+      this.logExecution(rule, campaignData, false, `Rule deactivated: schedule ended on ${rule.schedule!.endDate}`, undefined, {
+        skipReason: 'schedule_ended'
+      });
+    }
   }
 
   /**
-   * Update an existing rule
+   * Get tags for all campaigns
    */
-  static updateRule(ruleId: string, updates: Partial<AutomationRule>): AutomationRule | null {
-    const ruleIndex = this.rules.findIndex(rule => rule.id === ruleId);
-    if (ruleIndex === -1) return null;
+  static getCampaignTags(): Record<string, string[]> {
+    return this.repository.getCampaignTags();
+  }
 
-    this.rules[ruleIndex] = {
-      ...this.rules[ruleIndex],
+  /**
+   * Replace the tags of a campaign (used by tag-based rule scopes)
+   */
+  static setCampaignTags(campaignId: string, tags: string[]): string[] {
+    const uniqueTags = [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+    this.repository.setCampaignTags(campaignId, uniqueTags);
+    return uniqueTags;
+  }
+
+  /**
+   * Fetch the candidate campaigns of a scope (before its filters are applied)
+   */
+  private static async getScopeCandidates(
+    scope: RuleScope,
+    accountCache: Map<string, Promise<Campaign[]>>,
+    campaignCache: Map<string, Promise<Campaign | null>>
+  ): Promise<Campaign[]> {
+    const candidates: Promise<Campaign[]>[] = [];
+
+    const adAccountId = getScopeAdAccountId(scope);
+
+    if (adAccountId) {
+      if (!accountCache.has(adAccountId)) {
+        accountCache.set(adAccountId, MetaAdsService.getAccountCampaigns(adAccountId));
+      }
+      candidates.push(accountCache.get(adAccountId)!);
+    }
+
+    for (const campaignId of scope.campaignIds || []) {
+      if (!campaignCache.has(campaignId)) {
+        campaignCache.set(campaignId, MetaAdsService.getCampaign(campaignId).catch(() => null));
+      }
+      candidates.push(campaignCache.get(campaignId)!.then(campaign => campaign ? [campaign] : []));
+    }
+
+    return (await Promise.all(candidates)).flat();
+  }
+
+  /**
+   * Resolve rule scopes (by default those of all active rules) to the concrete campaigns they target
+   */
+  static async resolveScopedCampaigns(
+    rules: AutomationRule[] = this.repository.getRules().filter(r => r.isActive)
+  ): Promise<Campaign[]> {
+    const accountCache = new Map<string, Promise<Campaign[]>>();
+    const campaignCache = new Map<string, Promise<Campaign | null>>();
+    const campaignTags = this.repository.getCampaignTags();
+    const campaigns = new Map<string, Campaign>();
+
+    for (const rule of rules) {
+      const scope = getRuleScope(rule);
+
+      try {
+        const candidates = await this.getScopeCandidates(scope, accountCache, campaignCache);
+        for (const campaign of candidates) {
+          if (matchesRuleScope(scope, campaign, campaignTags[campaign.id])) {
+            campaigns.set(campaign.id, campaign);
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to resolve scope of rule ${rule.id}:`, error);
+      }
+    }
+
+    return [...campaigns.values()];
+  }
+
+  /**
+   * Build an unsaved rule from form input, e.g. to dry-run it before creating it
+   */
+  static createDraftRule(form: CreateRuleForm): AutomationRule {
+    const now = new Date().toISOString();
+
+    return syncPrimaryAction({
+      id: `draft-${uuidv4()}`,
+      slug: form.slug || slugify(form.name || 'Unsaved rule'),
+      name: form.name || 'Unsaved rule',
+      description: form.description || '',
+      campaignId: form.campaignId,
+      scope: form.scope,
+      conditions: normalizeConditionTree(form.conditions),
+      action: {
+        type: form.actionType,
+        parameters: form.actionParameters
+      },
+      actions: form.actions,
+      isActive: true,
+      priority: form.priority,
+      stopProcessing: form.stopProcessing,
+      cooldownMinutes: form.cooldownMinutes,
+      maxTriggers: form.maxTriggers,
+      hysteresis: normalizeHysteresis(form.hysteresis),
+      notificationChannels: form.notificationChannels,
+      dataRequirements: form.dataRequirements,
+      schedule: form.schedule,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  /**
+   * Update an existing rule. Changes are recorded as a new version; an update that
+   * changes nothing returns the rule as it is. Setting an optional field to null clears it.
+   */
+  static updateRule(
+    ruleId: string,
+    updates: Omit<Partial<AutomationRule>, 'conditions' | 'hysteresis'> & {
+      conditions?: ConditionGroupInput | RuleConditionInput[];
+      hysteresis?: RuleHysteresisInput | null;
+    },
+    changedBy: string = 'system'
+  ): AutomationRule | null {
+    const existingRule = this.repository.getRule(ruleId);
+    if (!existingRule) return null;
+
+    const updatedRule: AutomationRule = syncPrimaryAction({
+      ...existingRule,
       ...updates,
+      id: existingRule.id,
+      slug: existingRule.slug,
+      createdAt: existingRule.createdAt,
+      conditions: updates.conditions
+        ? normalizeConditionTree(updates.conditions)
+        : existingRule.conditions,
+      hysteresis: 'hysteresis' in updates
+        ? normalizeHysteresis(updates.hysteresis || undefined)
+        : existingRule.hysteresis,
+      updatedAt: new Date().toISOString()
+    });
+
+    for (const [field, value] of Object.entries(updates)) {
+      if (value === null) {
+        delete updatedRule[field as keyof AutomationRule];
+      }
+    }
+
+    if (diffRules(existingRule, updatedRule).length === 0) return existingRule;
+
+    return this.saveRuleVersion(existingRule, updatedRule, 'updated', changedBy);
+  }
+
+  /**
+   * Get a rule's version history, oldest first
+   */
+  static getRuleVersions(ruleId: string): RuleVersion[] {
+    return this.repository.getRuleVersions(ruleId);
+  }
+
+  /**
+   * Restore the configuration of an earlier version. The rollback is itself recorded
+   * as a new version, so it can be undone the same way.
+   */
+  static rollbackRule(ruleId: string, version: number, changedBy: string = 'system'): AutomationRule | null {
+    const existingRule = this.repository.getRule(ruleId);
+    const target = this.repository.getRuleVersions(ruleId).find(entry => entry.version === version);
+    if (!existingRule || !target) return null;
+
+    const restoredRule: AutomationRule = {
+      ...target.rule,
+      id: existingRule.id,
+      slug: existingRule.slug,
+      createdAt: existingRule.createdAt,
+      lastTriggered: existingRule.lastTriggered,
       updatedAt: new Date().toISOString()
     };
 
-    return this.rules[ruleIndex];
+    console.log(`⏮️ Rolling back rule "${existingRule.name}" to version ${version}`);
+    return this.saveRuleVersion(existingRule, restoredRule, 'rolled_back', changedBy, version);
   }
 
   /**
    * Delete a rule
    */
   static deleteRule(ruleId: string): boolean {
-    const ruleIndex = this.rules.findIndex(rule => rule.id === ruleId);
-    if (ruleIndex === -1) return false;
+    return this.repository.deleteRule(ruleId);
+  }
 
-    this.rules.splice(ruleIndex, 1);
-    return true;
+  /**
+   * Evaluate a metric expression against the insights loaded for a date window
+   */
+  private static getMetricValue(
+    expression: string,
+    campaignData: CampaignWithInsights,
+    window: InsightsWindow
+  ): number | null {
+    const windowData = getWindowData(campaignData, window);
+    if (!windowData) {
+      console.warn(`No insights loaded for window: ${formatInsightsWindow(window)}`);
+      return null;
+    }
+
+    try {
+      return evaluateMetricExpression(
+        compileMetricExpression(expression),
+        field => this.readMetric(field, windowData)
+      );
+    } catch (error) {
+      console.warn(`Invalid metric expression "${expression}":`, error instanceof Error ? error.message : error);
+      return null;
+    }
   }
 
   /**
-   * Evaluate a single condition against campaign data
+   * Read a single metric from windowed insights
    */
-  private static evaluateCondition(
-    condition: RuleCondition, 
-    campaignData: CampaignWithInsights
-  ): boolean {
-    const { field, operator, value } = condition;
+  private static readMetric(field: string, windowData: WindowedInsights): number | null {
     let actualValue: number | null = null;
+    const { insights, calculatedMetrics } = windowData;
+
+    // Action counts are addressed as actions.<action_type>
+    if (field.startsWith('actions.')) {
+      const action = insights?.actions?.find(a => a.action_type === field.slice('actions.'.length));
+      return action ? parseFloat(action.value) : 0;
+    }
 
     // Extract the actual value based on the field
     switch (field) {
       case 'spend':
-        actualValue = campaignData.insights ? parseFloat(campaignData.insights.spend) : 0;
+        actualValue = insights ? parseFloat(insights.spend) : 0;
         break;
       case 'ctr':
-        actualValue = campaignData.insights ? parseFloat(campaignData.insights.ctr) : 0;
+        actualValue = insights ? parseFloat(insights.ctr) : 0;
         break;
       case 'cpc':
-        actualValue = campaignData.insights ? parseFloat(campaignData.insights.cpc) : 0;
+        actualValue = insights ? parseFloat(insights.cpc) : 0;
         break;
       case 'cpm':
-        actualValue = campaignData.insights ? parseFloat(campaignData.insights.cpm) : 0;
+        actualValue = insights ? parseFloat(insights.cpm) : 0;
         break;
       case 'clicks':
-        actualValue = campaignData.insights ? parseInt(campaignData.insights.clicks) : 0;
+        actualValue = insights ? parseInt(insights.clicks) : 0;
         break;
       case 'impressions':
-        actualValue = campaignData.insights ? parseInt(campaignData.insights.impressions) : 0;
+        actualValue = insights ? parseInt(insights.impressions) : 0;
         break;
       case 'reach':
-        actualValue = campaignData.insights ? parseInt(campaignData.insights.reach) : 0;
+        actualValue = insights ? parseInt(insights.reach) : 0;
         break;
       case 'frequency':
-        actualValue = campaignData.insights ? parseFloat(campaignData.insights.frequency) : 0;
+        actualValue = insights ? parseFloat(insights.frequency) : 0;
         break;
       case 'roas':
-        actualValue = campaignData.calculatedMetrics.roas;
+        actualValue = calculatedMetrics.roas;
         break;
       case 'costPerAction':
-        actualValue = campaignData.calculatedMetrics.costPerAction;
+        actualValue = calculatedMetrics.costPerAction;
         break;
       case 'conversionRate':
-        actualValue = campaignData.calculatedMetrics.conversionRate;
+        actualValue = calculatedMetrics.conversionRate;
         break;
       default:
         console.warn(`Unknown field: ${field}`);
-        return false;
+        return null;
     }
 
+    return actualValue;
+  }
+
+  /**
+   * Calculate the change between a current and a baseline value
+   */
+  private static calculateChange(
+    currentValue: number | null,
+    baselineValue: number | null,
+    mode: ChangeMode
+  ): number | null {
+    if (currentValue === null || baselineValue === null) return null;
+    if (mode === 'absolute') return currentValue - baselineValue;
+
+    // A percent change from zero is undefined
+    if (baselineValue === 0) return null;
+    return ((currentValue - baselineValue) / Math.abs(baselineValue)) * 100;
+  }
+
+  /**
+   * Evaluate a single condition against campaign data
+   */
+  private static evaluateCondition(
+    condition: RuleCondition, 
+    campaignData: CampaignWithInsights,
+    now: Date
+  ): ConditionEvaluation {
+    const { field, operator } = condition;
+    const window = condition.window || DEFAULT_INSIGHTS_WINDOW;
+    const threshold = condition.valueExpression
+      ? this.getMetricValue(condition.valueExpression, campaignData, window)
+      : condition.value;
+    const evaluation: ConditionEvaluation = {
+      conditionId: condition.id,
+      field,
+      operator,
+      threshold,
+      actualValue: null,
+      passed: false,
+      window
+    };
+
+    let actualValue = this.getMetricValue(field, campaignData, window);
+
+    // Trend conditions compare the change between the condition window and its baseline
+    if (condition.change) {
+      const baselineWindow = resolveBaselineWindow(condition, now);
+      const currentValue = actualValue;
+      const baselineValue = baselineWindow
+        ? this.getMetricValue(field, campaignData, baselineWindow)
+        : null;
+
+      actualValue = this.calculateChange(currentValue, baselineValue, condition.change.mode);
+      Object.assign(evaluation, {
+        change: condition.change.mode,
+        currentValue,
+        baselineValue,
+        baselineWindow: baselineWindow || undefined
+      });
+    }
+
+    // Missing values leave the condition undecided rather than silently false
     if (actualValue === null) {
-      console.warn(`Could not get value for field: ${field}`);
-      return false;
+      return {
+        ...evaluation,
+        insufficientData: `${condition.change ? `${field} change` : field} is unavailable for ${formatInsightsWindow(window)}`
+      };
+    }
+
+    if (threshold === null) {
+      return { ...evaluation, actualValue, insufficientData: `${condition.valueExpression} is unavailable for ${formatInsightsWindow(window)}` };
+    }
+
+    // Rate metrics can require their confidence interval to clear the threshold
+    const windowData = getWindowData(campaignData, window);
+    if (condition.confidence && windowData) {
+      const inconclusive = checkRateConfidence(field, threshold, windowData, condition.confidence);
+      if (inconclusive) {
+        return { ...evaluation, actualValue, insufficientData: inconclusive };
+      }
     }
 
     // Evaluate the condition
-    return this.compareValues(actualValue, operator, value);
+    return {
+      ...evaluation,
+      actualValue,
+      passed: this.compareValues(actualValue, operator, threshold)
+    };
+  }
+
+  /**
+   * Fetch insights for every window the rules need that is not loaded yet.
+   * Each distinct window is fetched once per campaign and shared by all rules.
+   */
+  private static async loadRuleWindows(
+    campaignData: CampaignWithInsights,
+    rules: AutomationRule[]
+  ): Promise<CampaignWithInsights> {
+    const windows = { ...campaignData.windows };
+    const missingWindows = collectRuleWindows(rules).filter(
+      window => !getWindowData({ ...campaignData, windows }, window)
+    );
+
+    const fetchedWindows = await Promise.all(
+      missingWindows.map(async (window): Promise<WindowedInsights> => {
+        const insights = await MetaAdsService.getCampaignInsights(campaignData.campaign.id, window);
+        return {
+          window,
+          insights,
+          calculatedMetrics: MetaAdsService.calculateMetrics(insights)
+        };
+      })
+    );
+
+    for (const windowData of fetchedWindows) {
+      windows[getInsightsWindowKey(windowData.window)] = windowData;
+    }
+
+    return { ...campaignData, windows };
   }
 
   /**
@@ -159,60 +604,465 @@ export class AutomationEngine {
   }
 
   /**
-   * Evaluate all conditions in a rule using logical operators
+   * Evaluate a condition group, recursing into nested groups.
+   * Every condition is evaluated (no short-circuiting) so each one is recorded.
+   * Returns null when undecided conditions leave the group's result open
+   * (three-valued logic: a failed AND or a passed OR is decided regardless).
    */
-  private static evaluateRule(rule: AutomationRule, campaignData: CampaignWithInsights): boolean {
-    if (rule.conditions.length === 0) return false;
-    if (rule.conditions.length === 1) {
-      return this.evaluateCondition(rule.conditions[0], campaignData);
+  private static evaluateGroup(
+    group: ConditionGroup,
+    campaignData: CampaignWithInsights,
+    evaluations: ConditionEvaluation[],
+    now: Date
+  ): boolean | null {
+    if (group.conditions.length === 0) return false;
+
+    const results = group.conditions.map(node => {
+      if (isConditionGroup(node)) {
+        return this.evaluateGroup(node, campaignData, evaluations, now);
+      }
+
+      const evaluation = this.evaluateCondition(node, campaignData, now);
+      evaluations.push(evaluation);
+      return evaluation.insufficientData ? null : evaluation.passed;
+    });
+
+    const decisive = group.operator === 'OR';
+    if (results.includes(decisive)) return decisive;
+    return results.includes(null) ? null : !decisive;
+  }
+
+  /**
+   * Evaluate a rule's condition tree. Relative windows (e.g. previous-period baselines)
+   * are resolved against `now`, which backtests move into the past.
+   * Has no side effects: nothing is executed or logged.
+   */
+  static evaluateRule(
+    rule: AutomationRule,
+    campaignData: CampaignWithInsights,
+    now: Date = new Date()
+  ): RuleEvaluation {
+    // Minimum-data gates apply to every window the conditions read
+    const windows = new Map<string, WindowedInsights>();
+    for (const window of collectConditionWindows(rule.conditions, now)) {
+      const windowData = getWindowData(campaignData, window);
+      if (windowData) windows.set(getInsightsWindowKey(window), windowData);
     }
 
-    // Handle multiple conditions with logical operators
-    let result = this.evaluateCondition(rule.conditions[0], campaignData);
-    
-    for (let i = 1; i < rule.conditions.length; i++) {
-      const condition = rule.conditions[i];
-      const conditionResult = this.evaluateCondition(condition, campaignData);
-      
-      if (condition.logicalOperator === 'OR') {
-        result = result || conditionResult;
-      } else { // Default to AND
-        result = result && conditionResult;
+    const gate = checkDataRequirements(rule.dataRequirements, campaignData.campaign, [...windows.values()], now);
+    if (gate) {
+      return { matched: false, insufficientData: gate, conditions: [] };
+    }
+
+    const conditions: ConditionEvaluation[] = [];
+    const result = this.evaluateGroup(rule.conditions, campaignData, conditions, now);
+
+    if (result === null) {
+      const reasons = conditions.filter(c => c.insufficientData).map(c => c.insufficientData);
+      return { matched: false, insufficientData: reasons.join('; '), conditions };
+    }
+
+    return { matched: result, conditions };
+  }
+
+  /**
+   * Whether a rule waiting for recovery has recovered: its recovery condition matches, or
+   * without one, its conditions no longer match. Null when there is not enough data to tell.
+   */
+  static isRecovered(
+    rule: AutomationRule,
+    campaignData: CampaignWithInsights,
+    evaluation: RuleEvaluation,
+    now: Date = new Date()
+  ): boolean | null {
+    const recovery = rule.hysteresis?.recovery;
+    if (!recovery) return evaluation.insufficientData ? null : !evaluation.matched;
+
+    const recoveryEvaluation = this.evaluateRule({ ...rule, conditions: recovery }, campaignData, now);
+    return recoveryEvaluation.insufficientData ? null : recoveryEvaluation.matched;
+  }
+
+  /**
+   * Run one action through the action executor, throwing when it is not applied.
+   * Budget changes are returned so they can be logged.
+   */
+  private static async runAction(
+    campaignId: string,
+    action: RuleAction,
+    accountTimezone?: string
+  ): Promise<BudgetChange | undefined> {
+    if (action.type === 'ADJUST_BUDGET') return this.runBudgetAction(campaignId, action, accountTimezone);
+
+    const result = await this.actionExecutor.execute(campaignId, action);
+    if (!result.success) {
+      throw new Error(result.error || `${action.type} was not applied`);
+    }
+  }
+
+  /**
+   * Work out the new budget from the campaign's current budget (and yesterday's spend
+   * when needed) and apply it. The budget the campaign started the day with is kept for
+   * the daily change limit; days follow the ad account's timezone, like Meta's budget days.
+   */
+  private static async runBudgetAction(
+    campaignId: string,
+    action: RuleAction,
+    accountTimezone?: string
+  ): Promise<BudgetChange> {
+    const parameters = action.parameters || {};
+    const today = getLocalDate(new Date(), resolveScheduleTimezone(undefined, accountTimezone));
+
+    const [current, yesterday] = await Promise.all([
+      MetaAdsService.getCampaignBudget(campaignId),
+      needsYesterdaySpend(parameters) ? MetaAdsService.getCampaignInsights(campaignId, { preset: 'yesterday' }) : null
+    ]);
+    const budgetDay = this.repository.getCampaignBudgetDay(campaignId);
+    const dayStartBudget = budgetDay?.date === today ? budgetDay.startAmount : undefined;
+
+    const change = calculateBudgetChange(parameters, current, {
+      yesterdaySpend: yesterday ? parseFloat(yesterday.spend) || 0 : null,
+      dayStartBudget
+    });
+    console.log(`💰 Budget change for campaign ${campaignId}: ${describeBudgetChange(change)}`);
+
+    const result = await this.actionExecutor.execute(campaignId, {
+      type: 'ADJUST_BUDGET',
+      parameters: { newBudget: change.newBudget, budgetType: change.budgetType }
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'ADJUST_BUDGET was not applied');
+    }
+
+    if (dayStartBudget === undefined && change.previousBudget !== null) {
+      this.repository.saveCampaignBudgetDay(campaignId, { date: today, startAmount: change.previousBudget });
+    }
+
+    return change;
+  }
+
+  /**
+   * Schedule the reactivation a pause asks for (`resumeAfterMinutes` or `resumeNextDay`),
+   * or cancel pending reactivations once a campaign is resumed. Returns a note for the
+   * execution log.
+   */
+  private static trackReactivation(
+    rule: AutomationRule,
+    campaignData: CampaignWithInsights,
+    action: RuleAction,
+    now: Date = new Date()
+  ): string | undefined {
+    const { campaign } = campaignData;
+
+    if (action.type === 'RESUME_CAMPAIGN') {
+      this.cancelCampaignReactivations(campaign.id);
+      return undefined;
+    }
+
+    const { resumeAfterMinutes, resumeNextDay } = action.parameters || {};
+    if (action.type !== 'PAUSE_CAMPAIGN' || (typeof resumeAfterMinutes !== 'number' && resumeNextDay !== true)) {
+      return undefined;
+    }
+
+    // "Next day" follows the rule's schedule timezone, like the rest of the rule
+    const timezone = resolveScheduleTimezone(rule.schedule, campaignData.accountTimezone);
+    const resumeAt = typeof resumeAfterMinutes === 'number'
+      ? new Date(now.getTime() + resumeAfterMinutes * 60 * 1000)
+      : getNextLocalMidnight(now, timezone);
+
+    // A campaign has at most one pending reactivation, and a later pause never moves it back
+    const pending = this.repository.getPendingReactivations().find(r => r.campaignId === campaign.id);
+    if (pending && new Date(pending.resumeAt) <= resumeAt) {
+      return `reactivation stays scheduled for ${formatInTimezone(new Date(pending.resumeAt), timezone)} ${timezone}`;
+    }
+
+    this.cancelCampaignReactivations(campaign.id);
+    this.repository.savePendingReactivation({
+      id: uuidv4(),
+      campaignId: campaign.id,
+      campaignName: campaign.name,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      pausedAt: now.toISOString(),
+      resumeAt: resumeAt.toISOString(),
+      attempts: 0
+    });
+
+    console.log(`⏰ Campaign ${campaign.id} will be reactivated at ${resumeAt.toISOString()}`);
+    return `reactivation scheduled for ${formatInTimezone(resumeAt, timezone)} ${timezone}`;
+  }
+
+  /**
+   * Why a pausing rule should not act on a campaign, or null when it may. Pausing a paused
+   * campaign again would only push its pending reactivation back.
+   */
+  private static checkAlreadyPaused(rule: AutomationRule, campaign: Campaign): string | null {
+    if (!hasActionType(rule, 'PAUSE_CAMPAIGN')) return null;
+
+    if (this.repository.getPendingReactivations().some(r => r.campaignId === campaign.id)) {
+      return 'Skipped: campaign is paused and awaiting its scheduled reactivation';
+    }
+    return campaign.status === 'PAUSED' ? 'Skipped: campaign is already paused' : null;
+  }
+
+  private static cancelCampaignReactivations(campaignId: string): void {
+    for (const reactivation of this.repository.getPendingReactivations()) {
+      if (reactivation.campaignId === campaignId) this.repository.deletePendingReactivation(reactivation.id);
+    }
+  }
+
+  /**
+   * Reactivate paused campaigns whose reactivation is due. Failed reactivations stay
+   * pending and are retried on the next run.
+   */
+  static async processReactivations(now: Date = new Date()): Promise<void> {
+    const due = this.repository.getPendingReactivations().filter(r => new Date(r.resumeAt) <= now);
+
+    for (const reactivation of due) {
+      let error: string | undefined;
+      try {
+        const result = await this.actionExecutor.execute(reactivation.campaignId, { type: 'RESUME_CAMPAIGN' });
+        if (!result.success) error = result.error || 'RESUME_CAMPAIGN was not applied';
+      } catch (err) {
+        error = err instanceof Error ? err.message : 'Unknown error';
       }
+
+      if (!error) {
+        console.log(`▶️ Reactivated campaign ${reactivation.campaignId} (paused by rule "${reactivation.ruleName}")`);
+        this.repository.deletePendingReactivation(reactivation.id);
+        this.logReactivation(reactivation, true, `Campaign reactivated after the pause by rule "${reactivation.ruleName}"`);
+        continue;
+      }
+
+      const attempts = reactivation.attempts + 1;
+      console.error(`❌ Failed to reactivate campaign ${reactivation.campaignId}: ${error}`);
+      this.repository.savePendingReactivation({ ...reactivation, attempts, lastError: error });
+      this.logReactivation(reactivation, false, `Reactivation failed (attempt ${attempts}, retrying on the next run): ${error}`);
     }
+  }
+
+  private static logReactivation(reactivation: PendingReactivation, triggered: boolean, reason: string): void {
+    this.repository.addLog({
+      id: uuidv4(),
+      ruleId: reactivation.ruleId,
+      campaignId: reactivation.campaignId,
+      action: 'RESUME_CAMPAIGN',
+      triggered,
+      reason,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        campaignName: reactivation.campaignName || reactivation.campaignId,
+        ruleName: reactivation.ruleName,
+        executor: this.actionExecutor.driver,
+        reactivationId: reactivation.id
+      }
+    });
+  }
+
+  /**
+   * Pending campaign reactivations, soonest first
+   */
+  static getPendingReactivations(): PendingReactivation[] {
+    return this.repository.getPendingReactivations()
+      .sort((a, b) => a.resumeAt.localeCompare(b.resumeAt));
+  }
+
+  /**
+   * Cancel a pending reactivation, leaving the campaign paused
+   */
+  static cancelReactivation(id: string): boolean {
+    return this.repository.deletePendingReactivation(id);
+  }
+
+  /**
+   * Notification channels, sorted by name
+   */
+  static getNotificationChannels(): NotificationChannel[] {
+    return this.repository.getNotificationChannels()
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * IDs of the configured notification channels, which saved rules may refer to
+   */
+  static getNotificationChannelIds(): string[] {
+    return this.repository.getNotificationChannels().map(channel => channel.id);
+  }
+
+  static getNotificationChannel(channelId: string): NotificationChannel | null {
+    return this.repository.getNotificationChannel(channelId);
+  }
+
+  /**
+   * Create or replace a notification channel. Redacted secrets sent back on update
+   * keep their stored values, and an email channel updated without a password keeps
+   * its current one.
+   */
+  static saveNotificationChannel(input: NotificationChannelInput): NotificationChannel {
+    const existing = this.repository.getNotificationChannel(input.id);
+    const now = new Date().toISOString();
+
+    const channel = {
+      ...restoreChannelSecrets(input, existing),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    } as NotificationChannel;
 
-    return result;
+    this.repository.saveNotificationChannel(channel);
+    return channel;
+  }
+
+  static deleteNotificationChannel(channelId: string): boolean {
+    return this.repository.deleteNotificationChannel(channelId);
+  }
+
+  /**
+   * Send a test notification through a channel
+   */
+  static async testNotificationChannel(channelId: string): Promise<NotificationDelivery | null> {
+    const channel = this.repository.getNotificationChannel(channelId);
+    if (!channel) return null;
+
+    const now = new Date();
+    return deliverNotification(channel, {
+      subject: `[Automation] Test notification for ${channel.name}`,
+      message: `This is a test notification for the ${channel.type} channel "${channel.id}".`,
+      ruleId: 'test',
+      ruleName: 'Test notification',
+      campaignId: 'test',
+      campaignName: 'Test campaign',
+      timestamp: now.toISOString()
+    });
+  }
+
+  /**
+   * Send a SEND_NOTIFICATION action to every channel of the rule. A channel that no
+   * longer exists counts as a failed delivery.
+   */
+  private static async runNotificationAction(
+    rule: AutomationRule,
+    campaignData: CampaignWithInsights,
+    action: RuleAction,
+    evaluation: RuleEvaluation
+  ): Promise<NotificationDelivery[]> {
+    const notification = buildRuleNotification(rule, campaignData, action, evaluation.conditions);
+
+    return Promise.all((rule.notificationChannels || []).map(channelId => {
+      const channel = this.repository.getNotificationChannel(channelId);
+      if (channel) return deliverNotification(channel, notification);
+
+      return Promise.resolve<NotificationDelivery>({
+        channelId,
+        status: 'failed',
+        error: 'Channel not found',
+        timestamp: new Date().toISOString()
+      });
+    }));
+  }
+
+  /**
+   * Describe the result of an action sequence for the execution log
+   */
+  private static describeSequenceResult(result: ActionSequenceResult): string {
+    const failures = result.steps
+      .filter(step => step.status === 'failed')
+      .map(step => `step ${step.step} ${step.type}: ${step.error}`)
+      .join('; ');
+
+    switch (result.outcome) {
+      case 'succeeded':
+        return `Action sequence executed successfully: ${describeActionSteps(result.steps)}`;
+      case 'partial_failure': {
+        const succeeded = result.steps.filter(step => step.status === 'succeeded').length;
+        return `Action sequence partially failed (${succeeded} of ${result.steps.length} steps succeeded): ${failures}`;
+      }
+      case 'failed':
+        return `Action sequence failed: ${failures}`;
+    }
   }
 
   /**
-   * Execute an automation action
+   * Execute a rule's action, or each step of its action sequence in order
    */
   private static async executeAction(
     rule: AutomationRule, 
-    campaignData: CampaignWithInsights
+    campaignData: CampaignWithInsights,
+    evaluation: RuleEvaluation
   ): Promise<boolean> {
+    const campaignId = campaignData.campaign.id;
+    const logEvaluation = { ...evaluation, actionParameters: rule.action.parameters };
+    const executorMetadata = { executor: this.actionExecutor.driver };
+
     try {
-      console.log(`🔥 Executing action: ${rule.action.type} for campaign ${campaignData.campaign.id}`);
-      
-      const result = await MetaAdsService.executeAction(
-        campaignData.campaign.id,
-        rule.action.type,
-        rule.action.parameters
-      );
+      const steps = getActionSteps(rule);
+      console.log(`🔥 Executing action: ${describeActionSteps(steps)} for campaign ${campaignId}`);
+
+      const budgetChanges: BudgetChange[] = [];
+      const notifications: NotificationDelivery[] = [];
+      const notes: string[] = [];
+      const result = await runActionSequence(steps, async action => {
+        // Rules without channels keep logging notifications through the action executor
+        if (action.type === 'SEND_NOTIFICATION' && rule.notificationChannels?.length) {
+          const deliveries = await this.runNotificationAction(rule, campaignData, action, evaluation);
+          notifications.push(...deliveries);
+
+          // The step only fails when no channel received the notification
+          if (deliveries.every(delivery => delivery.status === 'failed')) {
+            throw new Error(`Notification not delivered: ${deliveries.map(d => `${d.channelId}: ${d.error}`).join('; ')}`);
+          }
+          notes.push(describeDeliveries(deliveries));
+          return;
+        }
+
+        const change = await this.runAction(campaignId, action, campaignData.accountTimezone);
+        if (change) {
+          budgetChanges.push(change);
+          notes.push(describeBudgetChange(change));
+        }
+
+        const reactivationNote = this.trackReactivation(rule, campaignData, action);
+        if (reactivationNote) notes.push(reactivationNote);
+      });
+      const triggered = result.outcome !== 'failed';
+      const actionNotes = notes.length > 0 ? `, ${notes.join('; ')}` : '';
+
+      // Log the old and new budget of the last budget change applied
+      const budgetChange = budgetChanges[budgetChanges.length - 1];
+      const metadata = budgetChange ? {
+        ...executorMetadata,
+        budgetType: budgetChange.budgetType,
+        newBudget: budgetChange.newBudget,
+        ...(budgetChange.previousBudget !== null && { previousBudget: budgetChange.previousBudget })
+      } : executorMetadata;
+
+      if (!rule.actions?.length) {
+        // A single action keeps the plain log format
+        const [step] = result.steps;
+        this.logExecution(rule, campaignData, triggered, triggered
+          ? `Action executed successfully: ${step.type}${actionNotes}`
+          : `Action failed: ${step.error}`, logEvaluation, metadata, undefined, notifications);
+      } else {
+        if (result.outcome !== 'succeeded') {
+          console.warn(`⚠️ Action sequence for rule "${rule.name}" ${result.outcome.replace('_', ' ')} for campaign ${campaignId}`);
+        }
+        this.logExecution(rule, campaignData, triggered, this.describeSequenceResult(result) + actionNotes, logEvaluation, metadata, result, notifications);
+      }
+
+      if (!triggered) return false;
 
-      // Log the execution
-      this.logExecution(rule, campaignData, true, `Action executed successfully: ${rule.action.type}`);
-      
       // Update rule's last triggered time
-      const ruleIndex = this.rules.findIndex(r => r.id === rule.id);
-      if (ruleIndex !== -1) {
-        this.rules[ruleIndex].lastTriggered = new Date().toISOString();
+      const storedRule = this.repository.getRule(rule.id);
+      if (storedRule) {
+        this.repository.saveRule({ ...storedRule, lastTriggered: new Date().toISOString() });
       }
 
-      return result.success;
+      // Track triggers per campaign for cooldowns, trigger caps and hysteresis
+      const state = recordTrigger(this.repository.getRuleState(rule.id, campaignId), rule.id, campaignId);
+      this.repository.saveRuleState(rule.hysteresis ? latchHysteresis(state) : state);
+
+      return result.outcome === 'succeeded';
     } catch (error) {
       console.error(`Failed to execute action for rule ${rule.id}:`, error);
-      this.logExecution(rule, campaignData, false, `Action failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.logExecution(rule, campaignData, false, `Action failed: ${error instanceof Error ? error.message : 'Unknown error'}`, logEvaluation);
       return false;
     }
   }
@@ -224,81 +1074,289 @@ export class AutomationEngine {
     rule: AutomationRule,
     campaignData: CampaignWithInsights,
     triggered: boolean,
-    reason: string
+    reason: string,
+    evaluation?: AutomationLogEvaluation,
+    extraMetadata?: Record<string, string | number | boolean>,
+    sequence?: ActionSequenceResult,
+    notifications?: NotificationDelivery[]
   ): void {
     const log: AutomationLog = {
       id: uuidv4(),
       ruleId: rule.id,
+      ruleVersion: rule.version,
       campaignId: campaignData.campaign.id,
       action: rule.action.type,
       triggered,
       reason,
       timestamp: new Date().toISOString(),
+      evaluation,
+      actionSteps: sequence?.steps,
+      actionOutcome: sequence?.outcome,
+      notifications: notifications?.length ? notifications : undefined,
       metadata: {
         campaignName: campaignData.campaign.name,
         ruleName: rule.name,
         spend: campaignData.insights?.spend || '0',
-        ctr: campaignData.insights?.ctr || '0'
+        ctr: campaignData.insights?.ctr || '0',
+        ...extraMetadata
       }
     };
 
-    this.logs.push(log);
-    
-    // Keep only the last 1000 logs to prevent memory issues
-    if (this.logs.length > 1000) {
-      this.logs = this.logs.slice(-1000);
+    this.repository.addLog(log);
+  }
+
+  /**
+   * Work out what a rule would do for one campaign, including cooldowns, trigger caps
+   * and conflicts with the campaign's other active rules
+   */
+  private static async dryRunCampaign(
+    rule: AutomationRule,
+    campaignData: CampaignWithInsights
+  ): Promise<RuleDryRunResult> {
+    const { campaign } = campaignData;
+    const inScope = matchesRuleScope(getRuleScope(rule), campaign, this.repository.getCampaignTags()[campaign.id]);
+    const otherRules = this.getRulesForCampaign(campaign, campaignData.accountTimezone).filter(r => r.id !== rule.id);
+
+    campaignData = await this.loadRuleWindows(campaignData, [rule, ...otherRules]);
+    const evaluation = this.evaluateRule(rule, campaignData);
+    const notificationStep = getActionSteps(rule).find(step => step.type === 'SEND_NOTIFICATION');
+    const result: RuleDryRunResult = {
+      campaignId: campaign.id,
+      campaignName: campaign.name,
+      inScope,
+      matched: evaluation.matched,
+      conditions: evaluation.conditions,
+      action: null,
+      reason: 'Rule conditions not met',
+      notificationPreview: notificationStep
+        ? buildRuleNotification(rule, campaignData, notificationStep, evaluation.conditions).message
+        : undefined
+    };
+
+    if (evaluation.insufficientData) {
+      return { ...result, reason: `Skipped: insufficient data (${evaluation.insufficientData})`, skipReason: 'insufficient_data' };
+    }
+
+    if (!evaluation.matched) return result;
+
+    const timezone = resolveScheduleTimezone(rule.schedule, campaignData.accountTimezone);
+    if (!isWithinSchedule(rule.schedule, new Date(), timezone)) {
+      const next = getNextEligibleTime(rule.schedule, new Date(), timezone);
+      return {
+        ...result,
+        reason: next
+          ? `Skipped: outside the rule's schedule (next eligible ${formatInTimezone(next, timezone)} ${timezone})`
+          : 'Skipped: the rule\'s schedule has ended',
+        skipReason: 'schedule'
+      };
+    }
+
+    const state = this.repository.getRuleState(rule.id, campaign.id);
+    const limit = checkTriggerLimits(rule, state);
+    if (limit) {
+      return { ...result, reason: limit.reason, skipReason: limit.code };
+    }
+
+    const alreadyPaused = this.checkAlreadyPaused(rule, campaign);
+    if (alreadyPaused) {
+      return { ...result, reason: alreadyPaused, skipReason: 'campaign_paused' };
+    }
+
+    if (rule.hysteresis) {
+      const hysteresis = advanceHysteresis(rule, state, campaign.id, evaluation.matched,
+        () => this.isRecovered(rule, campaignData, evaluation));
+      if (hysteresis.code) {
+        return { ...result, reason: hysteresis.reason!, skipReason: hysteresis.code };
+      }
+    }
+
+    // Build the same action plan a real run would, to see whether this rule survives conflicts
+    const matches: RuleMatch[] = [{ rule, evaluation }];
+    for (const other of otherRules) {
+      if (checkTriggerLimits(other, this.repository.getRuleState(other.id, campaign.id))) continue;
+
+      const otherEvaluation = this.evaluateRule(other, campaignData);
+      if (otherEvaluation.matched) {
+        matches.push({ rule: other, evaluation: otherEvaluation });
+      }
+    }
+
+    const suppressed = buildActionPlan(matches).suppressed.find(match => match.rule.id === rule.id);
+    if (suppressed) {
+      return { ...result, reason: suppressed.reason, skipReason: 'conflict', suppressedBy: suppressed.suppressedBy };
+    }
+
+    return {
+      ...result,
+      action: rule.action,
+      actions: rule.actions?.length ? rule.actions : undefined,
+      reason: `Would execute: ${describeActionSteps(getActionSteps(rule))}`
+    };
+  }
+
+  /**
+   * Evaluate a rule (saved or draft) against campaigns without executing actions or writing logs.
+   * Without explicit campaign IDs, the campaigns in the rule's scope are evaluated.
+   */
+  static async dryRunRule(rule: AutomationRule, campaignIds?: string[]): Promise<RuleDryRunResult[]> {
+    const resolvedCampaigns = new Map<string, Campaign>();
+    if (!campaignIds) {
+      for (const campaign of await this.resolveScopedCampaigns([rule])) {
+        resolvedCampaigns.set(campaign.id, campaign);
+      }
+    }
+
+    const results: RuleDryRunResult[] = [];
+
+    for (const campaignId of campaignIds || [...resolvedCampaigns.keys()]) {
+      try {
+        const campaignData = await this.loadCampaignData(campaignId, resolvedCampaigns.get(campaignId));
+        results.push(await this.dryRunCampaign(rule, campaignData));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        results.push({
+          campaignId,
+          inScope: false,
+          matched: false,
+          conditions: [],
+          action: null,
+          reason: `Failed to evaluate campaign: ${message}`,
+          error: message
+        });
+      }
     }
+
+    return results;
+  }
+
+  /**
+   * Fetch a campaign (unless already known) with its default-window insights
+   */
+  private static async loadCampaignData(campaignId: string, knownCampaign?: Campaign): Promise<CampaignWithInsights> {
+    const [campaign, insights] = await Promise.all([
+      knownCampaign ? Promise.resolve(knownCampaign) : MetaAdsService.getCampaign(campaignId),
+      MetaAdsService.getCampaignInsights(campaignId)
+    ]);
+    const accountTimezone = campaign.account_id
+      ? await MetaAdsService.getAdAccountTimezone(campaign.account_id)
+      : null;
+
+    return {
+      campaign,
+      insights,
+      calculatedMetrics: MetaAdsService.calculateMetrics(insights),
+      accountTimezone: accountTimezone || undefined,
+      lastUpdated: new Date().toISOString()
+    };
   }
 
   /**
    * Process automation rules for a single campaign
    */
   static async processCampaignRules(campaignData: CampaignWithInsights): Promise<void> {
-    const rules = this.getRulesForCampaign(campaignData.campaign.id);
+    this.deactivateEndedRules(campaignData);
+    const rules = sortRulesByPriority(this.getRulesForCampaign(campaignData.campaign, campaignData.accountTimezone));
+    const matches: RuleMatch[] = [];
     
     console.log(`🔍 Processing ${rules.length} automation rules for campaign ${campaignData.campaign.id}`);
 
+    if (rules.length > 0) {
+      campaignData = await this.loadRuleWindows(campaignData, rules);
+    }
+
+    // Evaluate every rule first, then act on a single conflict-free plan
     for (const rule of rules) {
       try {
-        const shouldExecute = this.evaluateRule(rule, campaignData);
+        // Respect cooldowns and trigger caps before evaluating anything
+        const limit = checkTriggerLimits(rule, this.repository.getRuleState(rule.id, campaignData.campaign.id));
+        if (limit) {
+          console.log(`⏸️ Rule "${rule.name}" skipped for campaign ${campaignData.campaign.id}: ${limit.code}`);
+          this.logExecution(rule, campaignData, false, limit.reason, undefined, { skipReason: limit.code });
+          continue;
+        }
+
+        const alreadyPaused = this.checkAlreadyPaused(rule, campaignData.campaign);
+        if (alreadyPaused) {
+          console.log(`⏸️ Rule "${rule.name}" skipped for campaign ${campaignData.campaign.id}: campaign_paused`);
+          this.logExecution(rule, campaignData, false, alreadyPaused, undefined, { skipReason: 'campaign_paused' });
+          continue;
+        }
+
+        const evaluation = this.evaluateRule(rule, campaignData);
+
+        if (evaluation.insufficientData) {
+          console.log(`🔎 Rule "${rule.name}" skipped for campaign ${campaignData.campaign.id}: insufficient data`);
+          this.logExecution(rule, campaignData, false, `Skipped: insufficient data (${evaluation.insufficientData})`, evaluation, {
+            skipReason: 'insufficient_data'
+          });
+          continue;
+        }
+
+        // Rules with hysteresis only act once the conditions have held long enough
+        if (rule.hysteresis) {
+          const campaignId = campaignData.campaign.id;
+          const hysteresis = advanceHysteresis(
+            rule,
+            this.repository.getRuleState(rule.id, campaignId),
+            campaignId,
+            evaluation.matched,
+            () => this.isRecovered(rule, campaignData, evaluation)
+          );
+          this.repository.saveRuleState(hysteresis.state);
+
+          if (hysteresis.code) {
+            console.log(`⏳ Rule "${rule.name}" held back for campaign ${campaignId}: ${hysteresis.code}`);
+            this.logExecution(rule, campaignData, false, hysteresis.reason!, evaluation, { skipReason: hysteresis.code });
+            continue;
+          }
+        }
         
-        if (shouldExecute) {
+        if (evaluation.matched) {
           console.log(`✅ Rule "${rule.name}" conditions met for campaign ${campaignData.campaign.id}`);
-          await this.executeAction(rule, campaignData);
+          matches.push({ rule, evaluation });
         } else {
           console.log(`⏭️ Rule "${rule.name}" conditions not met for campaign ${campaignData.campaign.id}`);
-          this.logExecution(rule, campaignData, false, 'Rule conditions not met');
+          this.logExecution(rule, campaignData, false, 'Rule conditions not met', evaluation);
         }
       } catch (error) {
         console.error(`Error processing rule ${rule.id}:`, error);
         this.logExecution(rule, campaignData, false, `Rule processing error: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
+
+    const plan = buildActionPlan(matches);
+
+    for (const { rule, evaluation, reason, suppressedBy } of plan.suppressed) {
+      console.log(`🚫 Rule "${rule.name}" suppressed for campaign ${campaignData.campaign.id}`);
+      this.logExecution(rule, campaignData, false, reason, evaluation, { skipReason: 'conflict', suppressedBy });
+    }
+
+    for (const { rule, evaluation } of plan.actions) {
+      await this.executeAction(rule, campaignData, evaluation);
+    }
   }
 
   /**
-   * Process automation rules for multiple campaigns
+   * Process automation rules for multiple campaigns. Without explicit campaign IDs,
+   * every campaign targeted by an active rule's scope is processed.
+   * Returns the IDs of the campaigns that were processed.
    */
-  static async processAllRules(campaignIds: string[]): Promise<void> {
-    console.log(`🚀 Starting automation processing for ${campaignIds.length} campaigns`);
-    
-    for (const campaignId of campaignIds) {
-      try {
-        // Fetch campaign data and insights
-        const [campaign, insights] = await Promise.all([
-          MetaAdsService.getCampaign(campaignId),
-          MetaAdsService.getCampaignInsights(campaignId)
-        ]);
+  static async processAllRules(campaignIds?: string[]): Promise<string[]> {
+    const resolvedCampaigns = new Map<string, Campaign>();
+    if (!campaignIds) {
+      for (const campaign of await this.resolveScopedCampaigns()) {
+        resolvedCampaigns.set(campaign.id, campaign);
+      }
+    }
 
-        const calculatedMetrics = MetaAdsService.calculateMetrics(insights);
-        
-        const campaignData: CampaignWithInsights = {
-          campaign,
-          insights,
-          calculatedMetrics,
-          lastUpdated: new Date().toISOString()
-        };
+    const targetIds = campaignIds || [...resolvedCampaigns.keys()];
+    console.log(`🚀 Starting automation processing for ${targetIds.length} campaigns`);
 
+    await this.processReactivations();
+    
+    for (const campaignId of targetIds) {
+      try {
+        const campaignData = await this.loadCampaignData(campaignId, resolvedCampaigns.get(campaignId));
         await this.processCampaignRules(campaignData);
       } catch (error) {
         console.error(`Failed to process campaign ${campaignId}:`, error);
@@ -306,13 +1364,14 @@ export class AutomationEngine {
     }
     
     console.log(`✅ Completed automation processing`);
+    return targetIds;
   }
 
   /**
    * Get automation logs
    */
   static getLogs(limit: number = 100): AutomationLog[] {
-    return this.logs
+    return this.repository.getLogs()
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
       .slice(0, limit);
   }
@@ -321,7 +1380,7 @@ export class AutomationEngine {
    * Get logs for a specific campaign
    */
   static getLogsForCampaign(campaignId: string, limit: number = 50): AutomationLog[] {
-    return this.logs
+    return this.repository.getLogs()
       .filter(log => log.campaignId === campaignId)
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
       .slice(0, limit);
@@ -331,18 +1390,20 @@ export class AutomationEngine {
    * Clear all logs (useful for testing)
    */
   static clearLogs(): void {
-    this.logs = [];
+    this.repository.clearLogs();
   }
 
   /**
    * Get automation statistics
    */
   static getStats() {
-    const totalRules = this.rules.length;
-    const activeRules = this.rules.filter(rule => rule.isActive).length;
-    const totalLogs = this.logs.length;
-    const triggeredActions = this.logs.filter(log => log.triggered).length;
-    const recentLogs = this.logs.filter(log => 
+    const rules = this.repository.getRules();
+    const logs = this.repository.getLogs();
+    const totalRules = rules.length;
+    const activeRules = rules.filter(rule => rule.isActive).length;
+    const totalLogs = logs.length;
+    const triggeredActions = logs.filter(log => log.triggered).length;
+    const recentLogs = logs.filter(log => 
       new Date(log.timestamp).getTime() > Date.now() - 24 * 60 * 60 * 1000
     ).length;
 
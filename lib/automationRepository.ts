@@ -0,0 +1,377 @@
+import fs from 'fs';
+import path from 'path';
+import { AutomationRule, AutomationLog, CampaignBudgetDay, NotificationChannel, PendingReactivation, RuleCampaignState, RuleCondition, RuleVersion, STORAGE_CONFIG } from '@/types';
+import { normalizeConditionTree } from './conditionTree';
+import { createUniqueSlug } from './ruleSlugs';
+
+// Keep only the most recent logs to prevent unbounded growth
+const MAX_LOGS = 1000;
+
+// Keep only the most recent versions of each rule, for the same reason
+const MAX_VERSIONS_PER_RULE = 50;
+
+/**
+ * Persistence boundary for automation rules and execution logs
+ */
+export interface AutomationRepository {
+  getRules(): AutomationRule[];
+  getRule(ruleId: string): AutomationRule | null;
+  saveRule(rule: AutomationRule): AutomationRule;
+  deleteRule(ruleId: string): boolean;
+  getRuleVersions(ruleId: string): RuleVersion[];
+  addRuleVersion(version: RuleVersion): void;
+  addLog(log: AutomationLog): void;
+  getLogs(): AutomationLog[];
+  clearLogs(): void;
+  getRuleState(ruleId: string, campaignId: string): RuleCampaignState | null;
+  saveRuleState(state: RuleCampaignState): void;
+  getCampaignTags(): Record<string, string[]>;
+  setCampaignTags(campaignId: string, tags: string[]): void;
+  getCampaignBudgetDay(campaignId: string): CampaignBudgetDay | null;
+  saveCampaignBudgetDay(campaignId: string, day: CampaignBudgetDay): void;
+  getPendingReactivations(): PendingReactivation[];
+  savePendingReactivation(reactivation: PendingReactivation): void;
+  deletePendingReactivation(id: string): boolean;
+  getNotificationChannels(): NotificationChannel[];
+  getNotificationChannel(channelId: string): NotificationChannel | null;
+  saveNotificationChannel(channel: NotificationChannel): void;
+  deleteNotificationChannel(channelId: string): boolean;
+}
+
+// Shape of everything the repository stores
+interface AutomationStoreData {
+  rules: AutomationRule[];
+  ruleVersions: RuleVersion[];
+  logs: AutomationLog[];
+  ruleStates: RuleCampaignState[];
+  campaignTags: Record<string, string[]>;
+  campaignBudgetDays: Record<string, CampaignBudgetDay>;
+  pendingReactivations: PendingReactivation[];
+  notificationChannels: NotificationChannel[];
+}
+
+const createEmptyStore = (): AutomationStoreData => ({
+  rules: [],
+  ruleVersions: [],
+  logs: [],
+  ruleStates: [],
+  campaignTags: {},
+  campaignBudgetDays: {},
+  pendingReactivations: [],
+  notificationChannels: []
+});
+
+/**
+ * Upgrade rules stored in an older format to the current shape
+ */
+function migrateStoredData(data: Partial<AutomationStoreData>): AutomationStoreData {
+  const store = { ...createEmptyStore(), ...data };
+
+  const slugs = new Set(store.rules.map(rule => rule.slug).filter(Boolean));
+
+  const rules = store.rules.map(rule => {
+    // Rules created before condition trees stored a flat condition list
+    const conditions = rule.conditions as AutomationRule['conditions'] | RuleCondition[];
+    const migrated = {
+      ...rule,
+      conditions: Array.isArray(conditions) ? normalizeConditionTree(conditions) : conditions
+    };
+
+    // Rules created before slugs get one from their name
+    if (!migrated.slug) {
+      migrated.slug = createUniqueSlug(migrated.name, slugs);
+      slugs.add(migrated.slug);
+    }
+
+    return migrated;
+  });
+
+  // Rules created before version history start it with their current configuration
+  const ruleVersions = [...store.ruleVersions];
+  for (const [index, rule] of rules.entries()) {
+    if (rule.version !== undefined) continue;
+
+    rules[index] = { ...rule, version: 1 };
+    ruleVersions.push({
+      ruleId: rule.id,
+      version: 1,
+      changeType: 'created',
+      changedBy: 'system',
+      changedAt: rule.createdAt,
+      changes: [],
+      rule: rules[index]
+    });
+  }
+
+  return { ...store, rules, ruleVersions };
+}
+
+/**
+ * Repository that keeps all data in process memory (lost on restart)
+ */
+export class InMemoryAutomationRepository implements AutomationRepository {
+  protected data: AutomationStoreData;
+
+  constructor(initialData?: Partial<AutomationStoreData>) {
+    this.data = migrateStoredData(initialData || {});
+  }
+
+  /**
+   * Hook for subclasses to refresh data before reads
+   */
+  protected load(): void {}
+
+  /**
+   * Hook for subclasses to write data after mutations
+   */
+  protected persist(): void {}
+
+  getRules(): AutomationRule[] {
+    this.load();
+    return [...this.data.rules];
+  }
+
+  getRule(ruleId: string): AutomationRule | null {
+    this.load();
+    return this.data.rules.find(rule => rule.id === ruleId) || null;
+  }
+
+  saveRule(rule: AutomationRule): AutomationRule {
+    this.load();
+    const ruleIndex = this.data.rules.findIndex(r => r.id === rule.id);
+
+    if (ruleIndex === -1) {
+      this.data.rules.push(rule);
+    } else {
+      this.data.rules[ruleIndex] = rule;
+    }
+
+    this.persist();
+    return rule;
+  }
+
+  deleteRule(ruleId: string): boolean {
+    this.load();
+    const ruleIndex = this.data.rules.findIndex(rule => rule.id === ruleId);
+    if (ruleIndex === -1) return false;
+
+    this.data.rules.splice(ruleIndex, 1);
+    this.data.ruleStates = this.data.ruleStates.filter(state => state.ruleId !== ruleId);
+    this.persist();
+    return true;
+  }
+
+  getRuleVersions(ruleId: string): RuleVersion[] {
+    this.load();
+    return this.data.ruleVersions
+      .filter(version => version.ruleId === ruleId)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  // Versions are kept after a rule is deleted so its logs stay traceable
+  addRuleVersion(version: RuleVersion): void {
+    this.load();
+    this.data.ruleVersions.push(version);
+
+    const versions = this.data.ruleVersions.filter(entry => entry.ruleId === version.ruleId);
+    if (versions.length > MAX_VERSIONS_PER_RULE) {
+      const dropped = new Set(versions.sort((a, b) => a.version - b.version).slice(0, -MAX_VERSIONS_PER_RULE));
+      this.data.ruleVersions = this.data.ruleVersions.filter(entry => !dropped.has(entry));
+    }
+
+    this.persist();
+  }
+
+  addLog(log: AutomationLog): void {
+    this.load();
+    this.data.logs.push(log);
+
+    if (this.data.logs.length > MAX_LOGS) {
+      this.data.logs = this.data.logs.slice(-MAX_LOGS);
+    }
+
+    this.persist();
+  }
+
+  getLogs(): AutomationLog[] {
+    this.load();
+    return [...this.data.logs];
+  }
+
+  clearLogs(): void {
+    this.load();
+    this.data.logs = [];
+    this.persist();
+  }
+
+  getRuleState(ruleId: string, campaignId: string): RuleCampaignState | null {
+    this.load();
+    return this.data.ruleStates.find(
+      state => state.ruleId === ruleId && state.campaignId === campaignId
+    ) || null;
+  }
+
+  saveRuleState(state: RuleCampaignState): void {
+    this.load();
+    const stateIndex = this.data.ruleStates.findIndex(
+      s => s.ruleId === state.ruleId && s.campaignId === state.campaignId
+    );
+
+    if (stateIndex === -1) {
+      this.data.ruleStates.push(state);
+    } else {
+      this.data.ruleStates[stateIndex] = state;
+    }
+
+    this.persist();
+  }
+
+  getCampaignTags(): Record<string, string[]> {
+    this.load();
+    return { ...this.data.campaignTags };
+  }
+
+  setCampaignTags(campaignId: string, tags: string[]): void {
+    this.load();
+
+    if (tags.length === 0) {
+      delete this.data.campaignTags[campaignId];
+    } else {
+      this.data.campaignTags[campaignId] = tags;
+    }
+
+    this.persist();
+  }
+
+  getCampaignBudgetDay(campaignId: string): CampaignBudgetDay | null {
+    this.load();
+    return this.data.campaignBudgetDays[campaignId] || null;
+  }
+
+  saveCampaignBudgetDay(campaignId: string, day: CampaignBudgetDay): void {
+    this.load();
+    this.data.campaignBudgetDays[campaignId] = day;
+    this.persist();
+  }
+
+  getPendingReactivations(): PendingReactivation[] {
+    this.load();
+    return [...this.data.pendingReactivations];
+  }
+
+  savePendingReactivation(reactivation: PendingReactivation): void {
+    this.load();
+    const index = this.data.pendingReactivations.findIndex(r => r.id === reactivation.id);
+
+    if (index === -1) {
+      this.data.pendingReactivations.push(reactivation);
+    } else {
+      this.data.pendingReactivations[index] = reactivation;
+    }
+
+    this.persist();
+  }
+
+  deletePendingReactivation(id: string): boolean {
+    this.load();
+    const count = this.data.pendingReactivations.length;
+    this.data.pendingReactivations = this.data.pendingReactivations.filter(r => r.id !== id);
+
+    if (this.data.pendingReactivations.length === count) return false;
+    this.persist();
+    return true;
+  }
+
+  getNotificationChannels(): NotificationChannel[] {
+    this.load();
+    return [...this.data.notificationChannels];
+  }
+
+  getNotificationChannel(channelId: string): NotificationChannel | null {
+    this.load();
+    return this.data.notificationChannels.find(channel => channel.id === channelId) || null;
+  }
+
+  saveNotificationChannel(channel: NotificationChannel): void {
+    this.load();
+    const index = this.data.notificationChannels.findIndex(c => c.id === channel.id);
+
+    if (index === -1) {
+      this.data.notificationChannels.push(channel);
+    } else {
+      this.data.notificationChannels[index] = channel;
+    }
+
+    this.persist();
+  }
+
+  deleteNotificationChannel(channelId: string): boolean {
+    this.load();
+    const count = this.data.notificationChannels.length;
+    this.data.notificationChannels = this.data.notificationChannels.filter(c => c.id !== channelId);
+
+    if (this.data.notificationChannels.length === count) return false;
+    this.persist();
+    return true;
+  }
+}
+
+/**
+ * Repository backed by a JSON file on disk so rules and logs survive restarts.
+ * Every write rewrites the whole file, without locking: the file must be used by a
+ * single server process. It is re-read when it changes on disk, e.g. after being
+ * edited by hand while the server runs.
+ */
+export class FileAutomationRepository extends InMemoryAutomationRepository {
+  private lastModified = 0;
+
+  constructor(private readonly filePath: string) {
+    super();
+    this.load();
+  }
+
+  protected load(): void {
+    try {
+      const { mtimeMs } = fs.statSync(this.filePath);
+      if (mtimeMs === this.lastModified) return;
+
+      const contents = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      this.data = migrateStoredData(contents);
+      this.lastModified = mtimeMs;
+    } catch (error) {
+      // A missing file simply means nothing has been stored yet
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read automation store ${this.filePath}:`, error);
+      }
+    }
+  }
+
+  protected persist(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+      // Write to a temporary file first so a crash never leaves a half-written store
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(this.data, null, 2));
+      fs.renameSync(tempPath, this.filePath);
+
+      this.lastModified = fs.statSync(this.filePath).mtimeMs;
+    } catch (error) {
+      // Keep serving from memory if the filesystem is read-only (e.g. serverless)
+      console.error(`Failed to write automation store ${this.filePath}:`, error);
+    }
+  }
+}
+
+/**
+ * Create the repository selected by the storage configuration
+ */
+export function createAutomationRepository(): AutomationRepository {
+  if (STORAGE_CONFIG.driver === 'memory') {
+    return new InMemoryAutomationRepository();
+  }
+
+  const filePath = path.resolve(process.cwd(), STORAGE_CONFIG.filePath);
+  console.log(`💾 Using file automation store: ${filePath}`);
+  return new FileAutomationRepository(filePath);
+}
@@ -0,0 +1,276 @@
+import { addDays, endOfDay, format, startOfDay, subDays } from 'date-fns';
+import {
+  AutomationRule,
+  BacktestDay,
+  BacktestResult,
+  Campaign,
+  CampaignInsights,
+  CampaignWithInsights,
+  DEFAULT_INSIGHTS_WINDOW,
+  InsightsWindow,
+  RuleCampaignState,
+  WindowedInsights
+} from '@/types';
+import { AutomationEngine } from './automationEngine';
+import { MetaAdsService } from './metaAdsService';
+import { checkTriggerLimits, recordTrigger } from './triggerLimits';
+import { collectRuleWindows, getInsightsWindowKey, getInsightsWindowRange } from './insightsWindows';
+import { getActionSteps, hasActionType } from './actionSequence';
+import { calculateBudgetChange } from './budgetAdjustment';
+import { advanceHysteresis, latchHysteresis } from './ruleHysteresis';
+
+export const DEFAULT_BACKTEST_DAYS = 30;
+export const MAX_BACKTEST_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Sum daily insight rows within a date range into a single row. Ratios are
+ * recomputed from the totals; reach is summed, so it overstates unique reach.
+ */
+function aggregateInsights(
+  rows: CampaignInsights[],
+  range: { since: string; until: string }
+): CampaignInsights | null {
+  const inRange = rows.filter(row => row.date_start >= range.since && row.date_start <= range.until);
+  if (inRange.length === 0) return null;
+
+  let spend = 0;
+  let clicks = 0;
+  let impressions = 0;
+  let reach = 0;
+  const actions = new Map<string, number>();
+
+  for (const row of inRange) {
+    spend += parseFloat(row.spend) || 0;
+    clicks += parseInt(row.clicks) || 0;
+    impressions += parseInt(row.impressions) || 0;
+    reach += parseInt(row.reach) || 0;
+
+    for (const action of row.actions || []) {
+      actions.set(action.action_type, (actions.get(action.action_type) || 0) + (parseFloat(action.value) || 0));
+    }
+  }
+
+  return {
+    spend: spend.toFixed(2),
+    clicks: String(clicks),
+    impressions: String(impressions),
+    reach: String(reach),
+    ctr: String(impressions > 0 ? (clicks / impressions) * 100 : 0),
+    cpc: String(clicks > 0 ? spend / clicks : 0),
+    cpm: String(impressions > 0 ? (spend / impressions) * 1000 : 0),
+    frequency: String(reach > 0 ? impressions / reach : 0),
+    actions: [...actions].map(([action_type, value]) => ({ action_type, value: String(value) })),
+    date_start: inRange[0].date_start,
+    date_stop: inRange[inRange.length - 1].date_stop
+  };
+}
+
+/**
+ * Resolve a window to dates as of `now`; lifetime covers everything up to and including `now`'s day
+ */
+function getHistoricalRange(window: InsightsWindow, now: Date): { since: string; until: string } {
+  return getInsightsWindowRange(window, now) || { since: '', until: formatDay(now) };
+}
+
+/**
+ * Rebuild the campaign data the engine would have seen at `now` from daily rows
+ */
+function buildHistoricalCampaignData(
+  campaign: Campaign,
+  rows: CampaignInsights[],
+  windows: InsightsWindow[],
+  now: Date
+): CampaignWithInsights {
+  const windowData: Record<string, WindowedInsights> = {};
+
+  for (const window of windows) {
+    const insights = aggregateInsights(rows, getHistoricalRange(window, now));
+    windowData[getInsightsWindowKey(window)] = {
+      window,
+      insights,
+      calculatedMetrics: MetaAdsService.calculateMetrics(insights)
+    };
+  }
+
+  const defaultData = windowData[getInsightsWindowKey(DEFAULT_INSIGHTS_WINDOW)];
+
+  return {
+    campaign,
+    insights: defaultData.insights,
+    calculatedMetrics: defaultData.calculatedMetrics,
+    windows: windowData,
+    lastUpdated: now.toISOString()
+  };
+}
+
+/**
+ * Replay a rule over the last `days` complete days of one campaign.
+ *
+ * Each day is evaluated as of its last moment, like a live run just before
+ * midnight: `today` is the simulated day, `yesterday` the day before it, and
+ * rolling windows such as `last_7d` end the day before. Cooldowns and trigger
+ * caps are respected, and actions take effect from the start of the next day.
+ * Spend effects are estimates: a paused campaign saves that day's actual
+ * spend, and an adjusted budget is assumed to be spent in full. Relative
+ * budget changes start from the campaign's current daily budget. Reactivations
+ * after a pause are honoured, counting the paused share of a day as saved.
+ */
+async function backtestCampaign(
+  rule: AutomationRule,
+  campaignId: string,
+  days: number,
+  now: Date
+): Promise<BacktestResult> {
+  const lastDay = subDays(startOfDay(now), 1);
+  const simulatedDays = Array.from({ length: days }, (_, index) => addDays(lastDay, index - days + 1));
+  const evaluationDates = simulatedDays.map(day => endOfDay(day));
+  const windowsByDay = evaluationDates.map(date => collectRuleWindows([rule], date));
+
+  const campaign = await MetaAdsService.getCampaign(campaignId);
+
+  // One request covers every window of every simulated day
+  const since = windowsByDay.flatMap((windows, index) => windows.map(window =>
+    window.preset === 'lifetime'
+      ? campaign.created_time.slice(0, 10)
+      : getHistoricalRange(window, evaluationDates[index]).since
+  )).reduce((earliest, date) => date < earliest ? date : earliest, formatDay(simulatedDays[0]));
+
+  const rows = await MetaAdsService.getDailyInsights(campaignId, since, formatDay(lastDay));
+
+  // Relative budget changes start from today's daily budget, the best guess for the past
+  const currentBudget = hasActionType(rule, 'ADJUST_BUDGET') ? await MetaAdsService.getCampaignBudget(campaignId) : null;
+  const startingBudget = currentBudget?.type === 'daily' ? currentBudget : null;
+  const spendByDay = new Map(rows.map(row => [row.date_start, parseFloat(row.spend) || 0]));
+
+  let state: RuleCampaignState | null = null;
+  let pausedUntil: number | null = null; // Infinity while paused without a reactivation
+  let dailyBudget: number | undefined;
+  const timeline: BacktestDay[] = [];
+
+  evaluationDates.forEach((evaluationDate, index) => {
+    const dayStart = simulatedDays[index];
+    const nextDayStart = addDays(dayStart, 1);
+    const date = formatDay(dayStart);
+    const spend = spendByDay.get(date) ?? 0;
+
+    // Share of the day the campaign spent paused; a partly paused day still runs the rule
+    const pausedShare = pausedUntil === null ? 0 : Math.min(1, (pausedUntil - dayStart.getTime()) / DAY_MS);
+    const paused = pausedShare >= 1;
+    if (pausedShare <= 0) pausedUntil = null;
+
+    const day: BacktestDay = {
+      date,
+      spend,
+      campaignStatus: paused ? 'PAUSED' : 'ACTIVE',
+      dailyBudget,
+      matched: false,
+      fired: false,
+      action: null,
+      conditions: [],
+      spendDelta: pausedShare > 0 ? -spend * pausedShare : dailyBudget !== undefined ? dailyBudget - spend : 0
+    };
+
+    if (paused) {
+      timeline.push({ ...day, skipReason: 'campaign_paused' });
+      return;
+    }
+
+    const campaignData = buildHistoricalCampaignData(campaign, rows, windowsByDay[index], evaluationDate);
+    const evaluation = AutomationEngine.evaluateRule(rule, campaignData, evaluationDate);
+    const limit = evaluation.matched ? checkTriggerLimits(rule, state, evaluationDate) : null;
+    const hysteresis = rule.hysteresis && !evaluation.insufficientData && !limit
+      ? advanceHysteresis(rule, state, campaignId, evaluation.matched,
+        () => AutomationEngine.isRecovered(rule, campaignData, evaluation, evaluationDate), evaluationDate)
+      : null;
+    if (hysteresis) state = hysteresis.state;
+    const fired = evaluation.matched && !limit && (!hysteresis || hysteresis.ready);
+
+    timeline.push({
+      ...day,
+      matched: evaluation.matched,
+      fired,
+      action: fired ? rule.action.type : null,
+      skipReason: evaluation.insufficientData ? 'insufficient_data' : limit?.code ?? hysteresis?.code,
+      conditions: evaluation.conditions
+    });
+
+    if (!fired) return;
+
+    state = recordTrigger(state, rule.id, campaignId, evaluationDate);
+    if (rule.hysteresis) state = latchHysteresis(state);
+
+    // Every step is assumed to succeed
+    for (const step of getActionSteps(rule)) {
+      if (step.type === 'PAUSE_CAMPAIGN') {
+        const { resumeAfterMinutes, resumeNextDay } = step.parameters || {};
+        pausedUntil = typeof resumeAfterMinutes === 'number'
+          ? nextDayStart.getTime() + resumeAfterMinutes * 60 * 1000
+          : resumeNextDay === true ? addDays(nextDayStart, 1).getTime() : Infinity;
+      } else if (step.type === 'RESUME_CAMPAIGN') {
+        pausedUntil = null;
+      } else if (step.type === 'ADJUST_BUDGET') {
+        const budget = dailyBudget !== undefined ? { type: 'daily' as const, amount: dailyBudget } : startingBudget;
+        try {
+          dailyBudget = calculateBudgetChange(step.parameters, budget, { yesterdaySpend: spend }).newBudget;
+        } catch {
+          // Without a known budget to start from, a relative change cannot be simulated
+        }
+      }
+    }
+  });
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    ruleId: rule.id,
+    campaignId,
+    since: timeline[0].date,
+    until: timeline[timeline.length - 1].date,
+    days: timeline,
+    summary: {
+      fireCount: timeline.filter(day => day.fired).length,
+      spendSaved: round(timeline.reduce((total, day) => total + Math.max(0, -day.spendDelta), 0)),
+      spendAdded: round(timeline.reduce((total, day) => total + Math.max(0, day.spendDelta), 0))
+    }
+  };
+}
+
+/**
+ * Backtest a rule (saved or draft) against campaigns. Without explicit campaign IDs,
+ * the campaigns in the rule's scope are used.
+ */
+export async function backtestRule(
+  rule: AutomationRule,
+  campaignIds?: string[],
+  days: number = DEFAULT_BACKTEST_DAYS,
+  now: Date = new Date()
+): Promise<BacktestResult[]> {
+  const targetIds = campaignIds ||
+    (await AutomationEngine.resolveScopedCampaigns([rule])).map(campaign => campaign.id);
+  const results: BacktestResult[] = [];
+
+  console.log(`⏪ Backtesting rule "${rule.name}" over ${days} days for ${targetIds.length} campaigns`);
+
+  for (const campaignId of targetIds) {
+    try {
+      results.push(await backtestCampaign(rule, campaignId, days, now));
+    } catch (error) {
+      console.error(`Failed to backtest rule ${rule.id} for campaign ${campaignId}:`, error);
+      results.push({
+        ruleId: rule.id,
+        campaignId,
+        since: formatDay(subDays(startOfDay(now), days)),
+        until: formatDay(subDays(startOfDay(now), 1)),
+        days: [],
+        summary: { fireCount: 0, spendSaved: 0, spendAdded: 0 },
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,87 @@
+import { BudgetChange, CampaignBudget } from '@/types';
+
+type ActionParameters = Record<string, string | number | boolean>;
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+const numberParameter = (parameters: ActionParameters, key: string): number | undefined =>
+  typeof parameters[key] === 'number' ? parameters[key] as number : undefined;
+
+/**
+ * Whether ADJUST_BUDGET parameters need yesterday's spend
+ */
+export function needsYesterdaySpend(parameters: ActionParameters = {}): boolean {
+  return numberParameter(parameters, 'spendMultiple') !== undefined;
+}
+
+/**
+ * Work out the budget an ADJUST_BUDGET action sets. The target comes from `newBudget`,
+ * `changePercent`, `changeAmount` or `spendMultiple`; it is then held within
+ * `maxDailyChange` of the budget the campaign started the day with, and finally within
+ * `minBudget` and `maxBudget`. Throws when an input the parameters need is unknown.
+ */
+export function calculateBudgetChange(
+  parameters: ActionParameters = {},
+  current: CampaignBudget | null,
+  options: { yesterdaySpend?: number | null; dayStartBudget?: number } = {}
+): BudgetChange {
+  const newBudget = numberParameter(parameters, 'newBudget');
+  const spendMultiple = numberParameter(parameters, 'spendMultiple');
+  const changePercent = numberParameter(parameters, 'changePercent');
+  const changeAmount = numberParameter(parameters, 'changeAmount');
+
+  let target: number;
+  if (newBudget !== undefined) {
+    target = newBudget;
+  } else if (spendMultiple !== undefined) {
+    if (options.yesterdaySpend === null || options.yesterdaySpend === undefined) {
+      throw new Error("Yesterday's spend is not available to scale the budget from");
+    }
+    target = options.yesterdaySpend * spendMultiple;
+  } else if (!current) {
+    throw new Error('The current campaign budget is not available to adjust');
+  } else if (changePercent !== undefined) {
+    target = current.amount * (1 + changePercent / 100);
+  } else if (changeAmount !== undefined) {
+    target = current.amount + changeAmount;
+  } else {
+    throw new Error('ADJUST_BUDGET needs newBudget, changePercent, changeAmount or spendMultiple');
+  }
+
+  let limitedBy: BudgetChange['limitedBy'];
+  const limit = (bound: number, exceeded: boolean, reason: NonNullable<BudgetChange['limitedBy']>) => {
+    if (!exceeded) return;
+    target = bound;
+    limitedBy = reason;
+  };
+
+  const maxDailyChange = numberParameter(parameters, 'maxDailyChange');
+  const dayStart = options.dayStartBudget ?? current?.amount;
+  if (maxDailyChange !== undefined && dayStart !== undefined) {
+    limit(dayStart + maxDailyChange, target > dayStart + maxDailyChange, 'maxDailyChange');
+    limit(dayStart - maxDailyChange, target < dayStart - maxDailyChange, 'maxDailyChange');
+  }
+
+  const minBudget = numberParameter(parameters, 'minBudget');
+  const maxBudget = numberParameter(parameters, 'maxBudget');
+  if (maxBudget !== undefined) limit(maxBudget, target > maxBudget, 'maxBudget');
+  if (minBudget !== undefined) limit(minBudget, target < minBudget, 'minBudget');
+
+  return {
+    budgetType: current?.type || 'daily',
+    previousBudget: current ? current.amount : null,
+    newBudget: roundCents(Math.max(0, target)),
+    limitedBy
+  };
+}
+
+/**
+ * Describe a budget change for logs, e.g. "daily budget $100.00 → $120.00 (limited by maxBudget)"
+ */
+export function describeBudgetChange(change: BudgetChange): string {
+  const from = change.previousBudget === null ? 'unknown' : formatAmount(change.previousBudget);
+  const limited = change.limitedBy ? ` (limited by ${change.limitedBy})` : '';
+  return `${change.budgetType} budget ${from} → ${formatAmount(change.newBudget)}${limited}`;
+}
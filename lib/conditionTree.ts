@@ -0,0 +1,81 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ConditionGroup,
+  ConditionGroupInput,
+  ConditionNode,
+  ConditionNodeInput,
+  LogicalOperator,
+  RuleCondition,
+  RuleConditionInput
+} from '@/types';
+
+/**
+ * Check whether a condition tree node is a group rather than a single condition
+ */
+export function isConditionGroup(node: ConditionNode): node is ConditionGroup;
+export function isConditionGroup(node: ConditionNodeInput): node is ConditionGroupInput;
+export function isConditionGroup(node: ConditionNode | ConditionNodeInput): boolean {
+  return 'type' in node && node.type === 'group';
+}
+
+/**
+ * Convert the legacy flat condition list into an equivalent condition tree.
+ *
+ * The flat format was evaluated strictly left to right, so `A OR B AND C`
+ * meant `(A OR B) AND C`. Every change of logical operator therefore wraps
+ * everything evaluated so far into a new group, preserving the old results.
+ */
+export function migrateFlatConditions(conditions: RuleConditionInput[]): ConditionGroupInput {
+  let group: ConditionGroupInput = { type: 'group', operator: 'AND', conditions: [] };
+
+  conditions.forEach((condition, index) => {
+    const { logicalOperator, ...rest } = condition;
+    const operator: LogicalOperator = logicalOperator === 'OR' ? 'OR' : 'AND';
+
+    if (index === 1) {
+      group.operator = operator;
+    } else if (index > 1 && operator !== group.operator) {
+      group = { type: 'group', operator, conditions: [group] };
+    }
+
+    group.conditions.push(rest);
+  });
+
+  return group;
+}
+
+/**
+ * Normalize condition input (a tree or the legacy flat list) into a tree with IDs on every node
+ */
+export function normalizeConditionTree(input: ConditionGroupInput | RuleConditionInput[]): ConditionGroup {
+  const root = Array.isArray(input) ? migrateFlatConditions(input) : input;
+  return normalizeGroup(root);
+}
+
+function normalizeGroup(group: ConditionGroupInput): ConditionGroup {
+  return {
+    id: group.id || uuidv4(),
+    type: 'group',
+    operator: group.operator === 'OR' ? 'OR' : 'AND',
+    conditions: group.conditions.map(node =>
+      isConditionGroup(node) ? normalizeGroup(node) : normalizeCondition(node)
+    )
+  };
+}
+
+function normalizeCondition(condition: RuleConditionInput): RuleCondition {
+  const normalized: RuleCondition = { ...condition, id: condition.id || uuidv4() };
+
+  // The logical operator lives on the group now
+  delete normalized.logicalOperator;
+  return normalized;
+}
+
+/**
+ * Collect every leaf condition in a tree, depth first
+ */
+export function flattenConditionTree(group: ConditionGroup): RuleCondition[] {
+  return group.conditions.flatMap(node =>
+    isConditionGroup(node) ? flattenConditionTree(node) : [node]
+  );
+}
@@ -0,0 +1,135 @@
+import { differenceInCalendarDays } from 'date-fns';
+import {
+  Campaign,
+  ConfidenceLevel,
+  DataRequirements,
+  WindowedInsights
+} from '@/types';
+import { formatInsightsWindow } from './insightsWindows';
+
+// Two-sided z-scores for the supported confidence levels
+const Z_SCORES: Record<ConfidenceLevel, number> = {
+  0.8: 1.2816,
+  0.9: 1.6449,
+  0.95: 1.96,
+  0.99: 2.5758
+};
+
+// Percentage metrics that are a share of trials, and how to count successes and trials
+const RATE_METRICS: Record<string, (windowData: WindowedInsights) => { successes: number; trials: number }> = {
+  ctr: ({ insights }) => ({
+    successes: parseInt(insights?.clicks || '0'),
+    trials: parseInt(insights?.impressions || '0')
+  }),
+  conversionRate: ({ insights, calculatedMetrics }) => {
+    const trials = parseInt(insights?.clicks || '0');
+    return {
+      successes: Math.round(((calculatedMetrics.conversionRate ?? 0) / 100) * trials),
+      trials
+    };
+  }
+};
+
+const REQUIREMENT_FIELDS: (keyof DataRequirements)[] = ['minImpressions', 'minClicks', 'minSpend', 'minDaysRunning'];
+
+/**
+ * Check a campaign against a rule's minimum-data gates.
+ * Returns why the data is insufficient, or null if every gate passes.
+ */
+export function checkDataRequirements(
+  requirements: DataRequirements | undefined,
+  campaign: Campaign,
+  windows: WindowedInsights[],
+  now: Date = new Date()
+): string | null {
+  if (!requirements) return null;
+
+  if (requirements.minDaysRunning) {
+    const daysRunning = differenceInCalendarDays(now, new Date(campaign.created_time));
+    if (!(daysRunning >= requirements.minDaysRunning)) {
+      return `campaign has been running ${Math.max(0, daysRunning)} days (minimum ${requirements.minDaysRunning})`;
+    }
+  }
+
+  for (const { window, insights } of windows) {
+    const label = formatInsightsWindow(window);
+    const impressions = parseInt(insights?.impressions || '0');
+    const clicks = parseInt(insights?.clicks || '0');
+    const spend = parseFloat(insights?.spend || '0');
+
+    if (requirements.minImpressions && impressions < requirements.minImpressions) {
+      return `${impressions} impressions in ${label} (minimum ${requirements.minImpressions})`;
+    }
+    if (requirements.minClicks && clicks < requirements.minClicks) {
+      return `${clicks} clicks in ${label} (minimum ${requirements.minClicks})`;
+    }
+    if (requirements.minSpend && spend < requirements.minSpend) {
+      return `$${spend.toFixed(2)} spend in ${label} (minimum $${requirements.minSpend})`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Wilson score interval of a rate, in percent
+ */
+export function getRateConfidenceInterval(
+  successes: number,
+  trials: number,
+  confidence: ConfidenceLevel
+): { lower: number; upper: number } | null {
+  if (trials <= 0) return null;
+
+  const z = Z_SCORES[confidence];
+  const p = Math.min(1, successes / trials);
+  const denominator = 1 + (z * z) / trials;
+  const center = (p + (z * z) / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denominator;
+
+  return {
+    lower: Math.max(0, center - margin) * 100,
+    upper: Math.min(1, center + margin) * 100
+  };
+}
+
+/**
+ * Check that a rate metric is significantly on one side of a threshold.
+ * Returns why the comparison is inconclusive, or null if the interval clears the threshold
+ * (in either direction — a clear failure is a decided result, not missing data).
+ */
+export function checkRateConfidence(
+  field: string,
+  threshold: number,
+  windowData: WindowedInsights,
+  confidence: ConfidenceLevel
+): string | null {
+  const counts = RATE_METRICS[field]?.(windowData);
+  if (!counts) return null;
+
+  const interval = getRateConfidenceInterval(counts.successes, counts.trials, confidence);
+  if (!interval) {
+    return `no ${field === 'ctr' ? 'impressions' : 'clicks'} to estimate ${field}`;
+  }
+
+  if (interval.upper < threshold || interval.lower > threshold) return null;
+
+  return `${field} ${confidence * 100}% confidence interval ${interval.lower.toFixed(2)}–${interval.upper.toFixed(2)} ` +
+    `includes the threshold ${threshold} (${counts.trials} ${field === 'ctr' ? 'impressions' : 'clicks'})`;
+}
+
+/**
+ * Validate data requirements received from a client. Returns one message per problem.
+ */
+export function validateDataRequirements(requirements: unknown): string[] {
+  if (typeof requirements !== 'object' || requirements === null || Array.isArray(requirements)) {
+    return ['dataRequirements must be an object'];
+  }
+
+  return REQUIREMENT_FIELDS
+    .filter(field => {
+      const value = (requirements as Record<string, unknown>)[field];
+      return value !== undefined && !(typeof value === 'number' && value >= 0);
+    })
+    .map(field => `dataRequirements.${field} must be a non-negative number`);
+}
@@ -0,0 +1,168 @@
+import { differenceInCalendarDays, endOfMonth, format, parseISO, startOfMonth, subDays, subMonths } from 'date-fns';
+import {
+  AutomationRule,
+  CampaignWithInsights,
+  ConditionEvaluation,
+  ConditionGroup,
+  DEFAULT_INSIGHTS_WINDOW,
+  INSIGHTS_DATE_PRESETS,
+  InsightsDatePreset,
+  InsightsWindow,
+  RuleCondition,
+  WindowedInsights
+} from '@/types';
+import { flattenConditionTree } from './conditionTree';
+
+// Rolling presets cover the N full days before today
+const ROLLING_PRESET_DAYS: Partial<Record<InsightsDatePreset, number>> = {
+  last_3d: 3,
+  last_7d: 7,
+  last_14d: 14,
+  last_30d: 30
+};
+
+const formatDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const customWindow = (since: Date, until: Date): InsightsWindow => ({
+  preset: 'custom',
+  since: formatDay(since),
+  until: formatDay(until)
+});
+
+/**
+ * Build a stable cache key for an insights window
+ */
+export function getInsightsWindowKey(window: InsightsWindow = DEFAULT_INSIGHTS_WINDOW): string {
+  return window.preset === 'custom'
+    ? `custom:${window.since}:${window.until}`
+    : window.preset;
+}
+
+/**
+ * Human readable label for an insights window
+ */
+export function formatInsightsWindow(window: InsightsWindow = DEFAULT_INSIGHTS_WINDOW): string {
+  if (window.preset === 'custom') {
+    return `${window.since} – ${window.until}`;
+  }
+
+  return INSIGHTS_DATE_PRESETS.find(preset => preset.key === window.preset)?.label || window.preset;
+}
+
+/**
+ * Resolve an insights window to concrete dates (null for lifetime)
+ */
+export function getInsightsWindowRange(
+  window: InsightsWindow,
+  now: Date = new Date()
+): { since: string; until: string } | null {
+  switch (window.preset) {
+    case 'custom':
+      return window.since && window.until ? { since: window.since, until: window.until } : null;
+    case 'today':
+      return { since: formatDay(now), until: formatDay(now) };
+    case 'yesterday':
+      return { since: formatDay(subDays(now, 1)), until: formatDay(subDays(now, 1)) };
+    case 'last_month': {
+      const monthStart = startOfMonth(subMonths(now, 1));
+      return { since: formatDay(monthStart), until: formatDay(endOfMonth(monthStart)) };
+    }
+    case 'lifetime':
+      return null;
+    default: {
+      const days = ROLLING_PRESET_DAYS[window.preset] || 1;
+      return { since: formatDay(subDays(now, days)), until: formatDay(subDays(now, 1)) };
+    }
+  }
+}
+
+/**
+ * Get the window of equal length immediately before the given one
+ */
+export function getPreviousPeriodWindow(window: InsightsWindow, now: Date = new Date()): InsightsWindow | null {
+  // Calendar months differ in length, so compare against the whole previous month
+  if (window.preset === 'last_month') {
+    const monthStart = startOfMonth(subMonths(now, 2));
+    return customWindow(monthStart, endOfMonth(monthStart));
+  }
+
+  const range = getInsightsWindowRange(window, now);
+  if (!range) return null;
+
+  const since = parseISO(range.since);
+  const length = differenceInCalendarDays(parseISO(range.until), since) + 1;
+  return customWindow(subDays(since, length), subDays(since, 1));
+}
+
+/**
+ * Resolve the baseline window of a trend condition (null if it has none)
+ */
+export function resolveBaselineWindow(condition: RuleCondition, now: Date = new Date()): InsightsWindow | null {
+  if (!condition.change) return null;
+
+  return condition.change.baseline === 'previous_period'
+    ? getPreviousPeriodWindow(condition.window || DEFAULT_INSIGHTS_WINDOW, now)
+    : condition.change.baseline;
+}
+
+/**
+ * Collect the insights windows every condition in a tree reads from,
+ * including the baseline windows of trend conditions
+ */
+export function collectConditionWindows(group: ConditionGroup, now: Date = new Date()): InsightsWindow[] {
+  return flattenConditionTree(group).flatMap(condition => {
+    const baselineWindow = resolveBaselineWindow(condition, now);
+    const window = condition.window || DEFAULT_INSIGHTS_WINDOW;
+    return baselineWindow ? [window, baselineWindow] : [window];
+  });
+}
+
+/**
+ * Collect the distinct insights windows needed to evaluate a set of rules,
+ * including their recovery conditions.
+ * The default window is always included since it backs the campaign summary.
+ */
+export function collectRuleWindows(rules: AutomationRule[], now: Date = new Date()): InsightsWindow[] {
+  const windows = new Map<string, InsightsWindow>();
+  windows.set(getInsightsWindowKey(DEFAULT_INSIGHTS_WINDOW), DEFAULT_INSIGHTS_WINDOW);
+
+  for (const rule of rules) {
+    const groups = rule.hysteresis?.recovery ? [rule.conditions, rule.hysteresis.recovery] : [rule.conditions];
+    for (const window of groups.flatMap(group => collectConditionWindows(group, now))) {
+      windows.set(getInsightsWindowKey(window), window);
+    }
+  }
+
+  return [...windows.values()];
+}
+
+/**
+ * Look up the loaded insights for a date window
+ */
+export function getWindowData(
+  campaignData: CampaignWithInsights,
+  window: InsightsWindow = DEFAULT_INSIGHTS_WINDOW
+): WindowedInsights | null {
+  const key = getInsightsWindowKey(window);
+  const windowData = campaignData.windows?.[key];
+  if (windowData) return windowData;
+
+  // The top-level insights always belong to the default window
+  if (key === getInsightsWindowKey(DEFAULT_INSIGHTS_WINDOW)) {
+    return {
+      window: DEFAULT_INSIGHTS_WINDOW,
+      insights: campaignData.insights,
+      calculatedMetrics: campaignData.calculatedMetrics
+    };
+  }
+
+  return null;
+}
+
+/**
+ * The window a rule's evaluated conditions read: that of its first condition, or the
+ * default window for rules without conditions
+ */
+export function getEvaluatedWindow(conditions: ConditionEvaluation[] = []): InsightsWindow {
+  return conditions[0]?.window || DEFAULT_INSIGHTS_WINDOW;
+}
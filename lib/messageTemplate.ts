@@ -0,0 +1,254 @@
+import { AutomationRule, CampaignWithInsights, ConditionEvaluation } from '@/types';
+import { formatInsightsWindow, getEvaluatedWindow, getWindowData } from './insightsWindows';
+
+/**
+ * Notification message templates with placeholders, e.g.
+ *
+ *   CTR of {{campaign.name}} dropped to {{insights.ctr | percent}} ({{metrics.roas | round:2}}x ROAS)
+ *
+ * A placeholder is `{{path}}` or `{{path | helper}}`, where a helper may take an
+ * argument after a colon (`round:2`, `currency:EUR`). Values that are not available
+ * (no insights, a metric without data) render as "n/a".
+ *
+ * `insights` and `metrics` come from the window the rule's conditions were evaluated over
+ * (that of the first condition), and `conditions.N.actual` is the value compared in the
+ * Nth condition's own window.
+ */
+
+type TemplateValue = string | number | boolean | null;
+type ValueType = 'string' | 'number' | 'boolean';
+
+export interface MessageTemplateContext {
+  rule: Pick<AutomationRule, 'id' | 'name' | 'slug' | 'description'>;
+  campaignData: CampaignWithInsights;
+  conditions?: ConditionEvaluation[]; // Condition results of the evaluation that fired the rule
+}
+
+interface Placeholder {
+  path: string;
+  helper?: string;
+  argument?: string;
+}
+
+type TemplatePart = string | Placeholder;
+
+// Placeholders of each namespace and the type of their values
+const PLACEHOLDERS: Record<string, Record<string, ValueType>> = {
+  campaign: { id: 'string', name: 'string', status: 'string', objective: 'string' },
+  insights: {
+    spend: 'number', clicks: 'number', impressions: 'number', ctr: 'number', cpc: 'number',
+    cpm: 'number', reach: 'number', frequency: 'number', date_start: 'string', date_stop: 'string'
+  },
+  metrics: { roas: 'number', costPerAction: 'number', conversionRate: 'number' },
+  rule: { id: 'string', name: 'string', slug: 'string', description: 'string' }
+};
+
+// Per-condition placeholders, e.g. `conditions.1.actual` for the first condition
+const CONDITION_PLACEHOLDERS: Record<string, ValueType> = {
+  field: 'string', operator: 'string', actual: 'number', threshold: 'number', passed: 'boolean', window: 'string'
+};
+
+const MISSING_VALUE = 'n/a';
+
+const HELPERS: Record<string, { validate: (argument?: string) => string | null; format: (value: number, argument?: string) => string }> = {
+  // {{insights.spend | currency}} -> $1,234.50; {{... | currency:EUR}} -> €1,234.50
+  currency: {
+    validate: argument => {
+      if (argument === undefined) return null;
+      if (!/^[A-Z]{3}$/.test(argument)) return 'currency needs a three-letter currency code, e.g. currency:EUR';
+      try {
+        new Intl.NumberFormat('en-US', { style: 'currency', currency: argument });
+        return null;
+      } catch {
+        return `"${argument}" is not a currency code`;
+      }
+    },
+    format: (value, argument = 'USD') =>
+      new Intl.NumberFormat('en-US', { style: 'currency', currency: argument }).format(value)
+  },
+  // For values that are already percentages (ctr, conversionRate): {{insights.ctr | percent}} -> 1.23%
+  percent: {
+    validate: argument => validateDecimals('percent', argument),
+    format: (value, argument = '2') => `${value.toFixed(Number(argument))}%`
+  },
+  // {{metrics.roas | round:2}} -> 1.87; without an argument, rounds to a whole number
+  round: {
+    validate: argument => validateDecimals('round', argument),
+    format: (value, argument = '0') => value.toFixed(Number(argument))
+  }
+};
+
+export const MESSAGE_TEMPLATE_HELPERS = Object.keys(HELPERS);
+
+function validateDecimals(helper: string, argument?: string): string | null {
+  return argument === undefined || /^\d$/.test(argument)
+    ? null
+    : `${helper} takes a number of decimals from 0 to 9, e.g. ${helper}:2`;
+}
+
+export class MessageTemplateError extends Error {}
+
+/**
+ * Split a template into text and placeholders. Throws on unterminated or empty placeholders.
+ */
+function parseTemplate(template: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let position = 0;
+
+  while (position < template.length) {
+    const start = template.indexOf('{{', position);
+    if (start === -1) {
+      parts.push(template.slice(position));
+      break;
+    }
+    if (start > position) parts.push(template.slice(position, start));
+
+    const end = template.indexOf('}}', start + 2);
+    if (end === -1) throw new MessageTemplateError(`Unterminated placeholder "${template.slice(start, start + 20)}"`);
+
+    const [path, helper, ...rest] = template.slice(start + 2, end).split('|').map(part => part.trim());
+    if (!path) throw new MessageTemplateError('Empty placeholder "{{}}"');
+    if (rest.length > 0) throw new MessageTemplateError(`{{${path}}} can have only one helper`);
+
+    if (helper === undefined) {
+      parts.push({ path });
+    } else {
+      const [name, argument] = helper.split(':').map(part => part.trim());
+      parts.push({ path, helper: name, argument });
+    }
+    position = end + 2;
+  }
+
+  return parts;
+}
+
+const isPlaceholder = (part: TemplatePart): part is Placeholder => typeof part !== 'string';
+
+/**
+ * The value type of a placeholder path, or an error message for unknown paths
+ */
+function resolveType(path: string, conditionCount?: number): ValueType | string {
+  const conditionMatch = path.match(/^conditions\.(\d+)\.(\w+)$/);
+  if (conditionMatch) {
+    const index = Number(conditionMatch[1]);
+    if (index < 1) return `{{${path}}}: conditions are numbered from 1`;
+    if (conditionCount !== undefined && index > conditionCount) {
+      return `{{${path}}}: the rule has ${conditionCount} condition${conditionCount === 1 ? '' : 's'}`;
+    }
+    return CONDITION_PLACEHOLDERS[conditionMatch[2]] ||
+      `{{${path}}}: conditions have ${Object.keys(CONDITION_PLACEHOLDERS).join(', ')}`;
+  }
+
+  const [namespace, key, ...rest] = path.split('.');
+  const fields = PLACEHOLDERS[namespace];
+  if (!fields) {
+    return `{{${path}}}: unknown placeholder; use ${[...Object.keys(PLACEHOLDERS), 'conditions'].join(', ')}`;
+  }
+  if (!key || rest.length > 0 || !fields[key]) {
+    return `{{${path}}}: ${namespace} has ${Object.keys(fields).join(', ')}`;
+  }
+  return fields[key];
+}
+
+/**
+ * Check a template's syntax, placeholders and helpers. With `conditionCount`, condition
+ * placeholders must refer to one of the rule's conditions. Returns error messages.
+ */
+export function validateMessageTemplate(template: string, options: { conditionCount?: number } = {}): string[] {
+  let parts: TemplatePart[];
+  try {
+    parts = parseTemplate(template);
+  } catch (error) {
+    return [(error as Error).message];
+  }
+
+  return parts.filter(isPlaceholder).flatMap(placeholder => {
+    const type = resolveType(placeholder.path, options.conditionCount);
+    if (type !== 'string' && type !== 'number' && type !== 'boolean') return [type];
+    if (placeholder.helper === undefined) return [];
+
+    const helper = HELPERS[placeholder.helper];
+    if (!helper) {
+      return [`{{${placeholder.path}}}: unknown helper "${placeholder.helper}"; use ${MESSAGE_TEMPLATE_HELPERS.join(', ')}`];
+    }
+    if (type !== 'number') return [`{{${placeholder.path}}}: ${placeholder.helper} only applies to numbers`];
+
+    const argumentError = helper.validate(placeholder.argument);
+    return argumentError ? [`{{${placeholder.path}}}: ${argumentError}`] : [];
+  });
+}
+
+/**
+ * Whether text contains placeholders, i.e. needs rendering
+ */
+export function hasPlaceholders(template: string): boolean {
+  return template.includes('{{');
+}
+
+const toNumber = (value: string | undefined): number | null => {
+  if (value === undefined) return null;
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+function lookupValue(path: string, context: MessageTemplateContext): TemplateValue {
+  const conditionMatch = path.match(/^conditions\.(\d+)\.(\w+)$/);
+  if (conditionMatch) {
+    const condition = context.conditions?.[Number(conditionMatch[1]) - 1];
+    if (!condition) return null;
+
+    switch (conditionMatch[2]) {
+      case 'field': return condition.field;
+      case 'operator': return condition.operator;
+      case 'actual': return condition.actualValue;
+      case 'threshold': return condition.threshold;
+      case 'passed': return condition.passed;
+      case 'window': return formatInsightsWindow(condition.window);
+      default: return null;
+    }
+  }
+
+  const [namespace, key] = path.split('.');
+  const { campaign } = context.campaignData;
+  const windowData = getWindowData(context.campaignData, getEvaluatedWindow(context.conditions));
+  const insights = windowData?.insights ?? null;
+  const calculatedMetrics = windowData?.calculatedMetrics ?? {};
+
+  switch (namespace) {
+    case 'campaign':
+      return (campaign as unknown as Record<string, string>)[key] ?? null;
+    case 'insights': {
+      const value = (insights as unknown as Record<string, string> | null)?.[key];
+      return PLACEHOLDERS.insights[key] === 'number' ? toNumber(value) : value ?? null;
+    }
+    case 'metrics':
+      return (calculatedMetrics as unknown as Record<string, number | null>)[key] ?? null;
+    case 'rule':
+      return (context.rule as Record<string, string | undefined>)[key] ?? null;
+    default:
+      return null;
+  }
+}
+
+// Numbers without a helper are shown with at most two decimals
+const formatPlain = (value: Exclude<TemplateValue, null>) =>
+  typeof value === 'number' ? String(Math.round(value * 100) / 100) : String(value);
+
+/**
+ * Fill in a template's placeholders. Throws `MessageTemplateError` for templates that
+ * `validateMessageTemplate` rejects.
+ */
+export function renderMessageTemplate(template: string, context: MessageTemplateContext): string {
+  const errors = validateMessageTemplate(template);
+  if (errors.length > 0) throw new MessageTemplateError(errors.join('; '));
+
+  return parseTemplate(template).map(part => {
+    if (!isPlaceholder(part)) return part;
+
+    const value = lookupValue(part.path, context);
+    if (value === null || value === '') return MISSING_VALUE;
+    if (part.helper === undefined || typeof value !== 'number') return formatPlain(value);
+
+    return HELPERS[part.helper].format(value, part.argument);
+  }).join('');
+}
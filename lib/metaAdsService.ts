@@ -1,5 +1,16 @@
 import axios, { AxiosResponse } from 'axios';
-import { Campaign, CampaignInsights, META_ADS_CONFIG, INSIGHT_FIELDS } from '@/types';
+import {
+  Campaign,
+  CampaignBudget,
+  CampaignInsights,
+  META_ADS_CONFIG,
+  INSIGHT_FIELDS,
+  InsightsWindow,
+  DEFAULT_INSIGHTS_WINDOW
+} from '@/types';
+import { normalizeAdAccountId } from './ruleScopes';
+
+const CAMPAIGN_FIELDS = 'id,account_id,name,status,objective,created_time,updated_time';
 
 // Create axios instance with default configuration
 const apiClient = axios.create({
@@ -36,14 +47,15 @@ apiClient.interceptors.response.use(
 );
 
 export class MetaAdsService {
+  private static accountTimezones = new Map<string, string>();
+
   /**
    * Fetch campaign data by campaign ID
    */
   static async getCampaign(campaignId: string): Promise<Campaign> {
     try {
-      const fields = 'id,name,status,objective,created_time,updated_time';
       const response: AxiosResponse<Campaign> = await apiClient.get(
-        `/${campaignId}?fields=${fields}`
+        `/${campaignId}?fields=${CAMPAIGN_FIELDS}`
       );
       
       return response.data;
@@ -54,16 +66,30 @@ export class MetaAdsService {
   }
 
   /**
-   * Fetch campaign insights by campaign ID
+   * Build the date query parameter for an insights window
+   */
+  private static getWindowQuery(window: InsightsWindow): string {
+    switch (window.preset) {
+      case 'custom':
+        return `time_range=${encodeURIComponent(JSON.stringify({ since: window.since, until: window.until }))}`;
+      case 'lifetime':
+        return 'date_preset=maximum';
+      default:
+        return `date_preset=${window.preset}`;
+    }
+  }
+
+  /**
+   * Fetch campaign insights by campaign ID for a date window
    */
   static async getCampaignInsights(
     campaignId: string, 
-    datePreset: string = 'last_month'
+    window: InsightsWindow = DEFAULT_INSIGHTS_WINDOW
   ): Promise<CampaignInsights | null> {
     try {
       const fields = INSIGHT_FIELDS.join(',');
       const response = await apiClient.get(
-        `/${campaignId}/insights?fields=${fields}&date_preset=${datePreset}`
+        `/${campaignId}/insights?fields=${fields}&${this.getWindowQuery(window)}`
       );
       
       // Meta Ads API returns insights in a data array
@@ -80,6 +106,51 @@ export class MetaAdsService {
     }
   }
 
+  /**
+   * Fetch one insights row per day for a date range (time_increment=1), following pagination
+   */
+  static async getDailyInsights(campaignId: string, since: string, until: string): Promise<CampaignInsights[]> {
+    try {
+      const fields = INSIGHT_FIELDS.join(',');
+      const timeRange = encodeURIComponent(JSON.stringify({ since, until }));
+      const rows: CampaignInsights[] = [];
+      let after: string | undefined;
+
+      do {
+        const response = await apiClient.get(
+          `/${campaignId}/insights?fields=${fields}&time_range=${timeRange}&time_increment=1&limit=100${after ? `&after=${after}` : ''}`
+        );
+
+        const data = response.data;
+        rows.push(...(Array.isArray(data?.data) ? data.data : []));
+        after = data?.paging?.next ? data.paging.cursors?.after : undefined;
+      } while (after);
+
+      return rows;
+    } catch (error) {
+      console.error(`Failed to fetch daily insights for campaign ${campaignId}:`, error);
+      throw new Error(`Failed to fetch daily insights: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Fetch a campaign's current budget in dollars (the API reports cents). Null when the
+   * campaign has no campaign-level budget or it cannot be read.
+   */
+  static async getCampaignBudget(campaignId: string): Promise<CampaignBudget | null> {
+    try {
+      const response = await apiClient.get(`/${campaignId}?fields=daily_budget,lifetime_budget`);
+      const { daily_budget: daily, lifetime_budget: lifetime } = response.data || {};
+
+      if (Number(daily) > 0) return { type: 'daily', amount: Number(daily) / 100 };
+      if (Number(lifetime) > 0) return { type: 'lifetime', amount: Number(lifetime) / 100 };
+      return null;
+    } catch (error) {
+      console.error(`Failed to fetch budget for campaign ${campaignId}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Fetch multiple campaigns (for future expansion)
    */
@@ -99,89 +170,52 @@ export class MetaAdsService {
   }
 
   /**
-   * Simulate campaign action execution (since we can't actually modify campaigns through the proxy)
+   * Fetch the IANA timezone of an ad account (cached, since it practically never changes)
    */
-  static async executeAction(campaignId: string, action: string, parameters?: Record<string, string | number | boolean>): Promise<{
-    success: boolean;
-    action: string;
-    timestamp: Date;
-    simulated: boolean;
-  }> {
-    console.log(`🎯 AUTOMATION ACTION TRIGGERED:`);
-    console.log(`Campaign ID: ${campaignId}`);
-    console.log(`Action: ${action}`);
-    console.log(`Parameters:`, parameters);
-    console.log(`Timestamp: ${new Date().toISOString()}`);
-    
-    // Simulate the API call that would be made in a real implementation
-    let apiCallThatWouldBeMade;
-    
-    switch (action) {
-      case 'PAUSE_CAMPAIGN':
-        apiCallThatWouldBeMade = {
-          method: 'POST',
-          url: `https://graph.facebook.com/v18.0/${campaignId}`,
-          headers: {
-            'Authorization': 'Bearer YOUR_ACCESS_TOKEN',
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({ status: 'PAUSED' })
-        };
-        break;
-        
-      case 'ADJUST_BUDGET':
-        apiCallThatWouldBeMade = {
-          method: 'POST',
-          url: `https://graph.facebook.com/v18.0/${campaignId}`,
-          headers: {
-            'Authorization': 'Bearer YOUR_ACCESS_TOKEN',
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({ 
-            daily_budget: parameters?.newBudget || 10000 // Budget in cents
-          })
-        };
-        break;
-        
-      case 'SEND_NOTIFICATION':
-        apiCallThatWouldBeMade = {
-          method: 'POST',
-          url: 'https://your-notification-service.com/notify',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            message: parameters?.message || `Campaign ${campaignId} triggered automation rule`,
-            campaignId,
-            timestamp: new Date().toISOString()
-          })
-        };
-        break;
-        
-      default:
-        apiCallThatWouldBeMade = {
-          method: 'POST',
-          url: `https://graph.facebook.com/v18.0/${campaignId}`,
-          headers: {
-            'Authorization': 'Bearer YOUR_ACCESS_TOKEN',
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({ 
-            // Generic action parameters
-            ...parameters
-          })
-        };
+  static async getAdAccountTimezone(adAccountId: string): Promise<string | null> {
+    const accountId = normalizeAdAccountId(adAccountId);
+    const cached = this.accountTimezones.get(accountId);
+    if (cached) return cached;
+
+    try {
+      const response = await apiClient.get(`/act_${accountId}?fields=timezone_name`);
+      const timezone = response.data?.timezone_name;
+
+      if (typeof timezone === 'string' && timezone) {
+        this.accountTimezones.set(accountId, timezone);
+        return timezone;
+      }
+      return null;
+    } catch (error) {
+      console.error(`Failed to fetch timezone for ad account ${adAccountId}:`, error);
+      // Schedules fall back to their own timezone or UTC
+      return null;
+    }
+  }
+
+  /**
+   * Fetch every campaign in an ad account, following pagination
+   */
+  static async getAccountCampaigns(adAccountId: string): Promise<Campaign[]> {
+    try {
+      const campaigns: Campaign[] = [];
+      let after: string | undefined;
+
+      do {
+        const response = await apiClient.get(
+          `/act_${normalizeAdAccountId(adAccountId)}/campaigns?fields=${CAMPAIGN_FIELDS}&limit=100${after ? `&after=${after}` : ''}`
+        );
+
+        const data = response.data;
+        campaigns.push(...(Array.isArray(data?.data) ? data.data : []));
+        after = data?.paging?.next ? data.paging.cursors?.after : undefined;
+      } while (after);
+
+      return campaigns;
+    } catch (error) {
+      console.error(`Failed to fetch campaigns for ad account ${adAccountId}:`, error);
+      throw new Error(`Failed to fetch ad account campaigns: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-    
-    console.log(`📡 API Call that would be made:`, apiCallThatWouldBeMade);
-    
-    // Return success simulation
-    return { 
-      success: true, 
-      action, 
-      timestamp: new Date(),
-      simulated: true
-    };
   }
 
   /**
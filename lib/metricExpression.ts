@@ -0,0 +1,298 @@
+import { AVAILABLE_METRICS } from '@/types';
+
+/**
+ * Arithmetic expressions over campaign metrics, e.g. `spend / reach * 1000`.
+ *
+ * Expressions are parsed into a small syntax tree and interpreted directly;
+ * nothing is ever passed to `eval`. Supported syntax: numbers, metric names
+ * (including `actions.<action_type>`), `+ - * /`, unary minus, parentheses
+ * and the functions `min`, `max` and `abs`.
+ */
+
+export type MetricExpression =
+  | { type: 'number'; value: number }
+  | { type: 'metric'; name: string }
+  | { type: 'negate'; operand: MetricExpression }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/'; left: MetricExpression; right: MetricExpression }
+  | { type: 'call'; name: MetricFunction; args: MetricExpression[] };
+
+type MetricFunction = 'min' | 'max' | 'abs';
+
+interface Token {
+  type: 'number' | 'identifier' | 'operator' | 'paren' | 'comma';
+  text: string;
+  position: number;
+}
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+const FUNCTION_ARITY: Record<MetricFunction, { min: number; max: number }> = {
+  min: { min: 2, max: Infinity },
+  max: { min: 2, max: Infinity },
+  abs: { min: 1, max: 1 }
+};
+
+const METRIC_KEYS = new Set<string>(AVAILABLE_METRICS.map(metric => metric.key));
+
+export class MetricExpressionError extends Error {
+  constructor(public readonly detail: string, public readonly position: number) {
+    super(`${detail} at position ${position + 1}`);
+    this.name = 'MetricExpressionError';
+  }
+}
+
+/**
+ * Check whether a name refers to a metric the engine can resolve
+ */
+export function isKnownMetric(name: string): boolean {
+  return METRIC_KEYS.has(name) || /^actions\.[a-z0-9_.]+$/i.test(name);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    const rest = source.slice(position);
+    const number = rest.match(/^(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?/);
+    const identifier = rest.match(/^[A-Za-z_][A-Za-z0-9_.]*/);
+
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], position });
+      position += number[0].length;
+    } else if (identifier) {
+      tokens.push({ type: 'identifier', text: identifier[0], position });
+      position += identifier[0].length;
+    } else if ('+-*/'.includes(char)) {
+      tokens.push({ type: 'operator', text: char, position });
+      position++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', text: char, position });
+      position++;
+    } else if (char === ',') {
+      tokens.push({ type: 'comma', text: char, position });
+      position++;
+    } else {
+      throw new MetricExpressionError(`Unexpected character "${char}"`, position);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser with the usual arithmetic precedence
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+  parse(): MetricExpression {
+    if (this.tokens.length === 0) {
+      throw new MetricExpressionError('Expression is empty', 0);
+    }
+
+    const expression = this.parseAdditive();
+    const leftover = this.peek();
+    if (leftover) {
+      throw new MetricExpressionError(`Unexpected "${leftover.text}"`, leftover.position);
+    }
+
+    return expression;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      throw new MetricExpressionError('Unexpected end of expression', this.source.length);
+    }
+    return token;
+  }
+
+  private expect(text: string): void {
+    const token = this.next();
+    if (token.text !== text) {
+      throw new MetricExpressionError(`Expected "${text}" but found "${token.text}"`, token.position);
+    }
+  }
+
+  private parseAdditive(): MetricExpression {
+    let left = this.parseMultiplicative();
+
+    while (this.peek()?.text === '+' || this.peek()?.text === '-') {
+      const operator = this.next().text as '+' | '-';
+      left = { type: 'binary', operator, left, right: this.parseMultiplicative() };
+    }
+
+    return left;
+  }
+
+  private parseMultiplicative(): MetricExpression {
+    let left = this.parseUnary();
+
+    while (this.peek()?.text === '*' || this.peek()?.text === '/') {
+      const operator = this.next().text as '*' | '/';
+      left = { type: 'binary', operator, left, right: this.parseUnary() };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): MetricExpression {
+    if (this.peek()?.text === '-') {
+      this.next();
+      return { type: 'negate', operand: this.parseUnary() };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): MetricExpression {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { type: 'number', value: parseFloat(token.text) };
+    }
+
+    if (token.text === '(') {
+      const expression = this.parseAdditive();
+      this.expect(')');
+      return expression;
+    }
+
+    if (token.type === 'identifier') {
+      if (this.peek()?.text === '(') {
+        return this.parseCall(token);
+      }
+
+      if (!isKnownMetric(token.text)) {
+        throw new MetricExpressionError(`Unknown metric "${token.text}"`, token.position);
+      }
+      return { type: 'metric', name: token.text };
+    }
+
+    throw new MetricExpressionError(`Unexpected "${token.text}"`, token.position);
+  }
+
+  private parseCall(token: Token): MetricExpression {
+    if (!Object.prototype.hasOwnProperty.call(FUNCTION_ARITY, token.text)) {
+      throw new MetricExpressionError(`Unknown function "${token.text}"`, token.position);
+    }
+
+    const name = token.text as MetricFunction;
+    const arity = FUNCTION_ARITY[name];
+
+    this.expect('(');
+    const args: MetricExpression[] = [this.parseAdditive()];
+    while (this.peek()?.type === 'comma') {
+      this.next();
+      args.push(this.parseAdditive());
+    }
+    this.expect(')');
+
+    if (args.length < arity.min || args.length > arity.max) {
+      throw new MetricExpressionError(`Wrong number of arguments for ${name}()`, token.position);
+    }
+
+    return { type: 'call', name, args };
+  }
+}
+
+/**
+ * Parse an expression, throwing a MetricExpressionError if it is invalid
+ */
+export function parseMetricExpression(source: string): MetricExpression {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new MetricExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, 0);
+  }
+
+  return new Parser(tokenize(source), source).parse();
+}
+
+/**
+ * Validate an expression, returning an error message or null if it is valid
+ */
+export function validateMetricExpression(source: string): string | null {
+  try {
+    parseMetricExpression(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid expression';
+  }
+}
+
+const compiledExpressions = new Map<string, MetricExpression>();
+
+/**
+ * Parse an expression once and reuse the syntax tree on later calls
+ */
+export function compileMetricExpression(source: string): MetricExpression {
+  let expression = compiledExpressions.get(source);
+  if (!expression) {
+    expression = parseMetricExpression(source);
+    compiledExpressions.set(source, expression);
+  }
+  return expression;
+}
+
+/**
+ * Evaluate an expression. Returns null when a metric is unavailable or the
+ * result is undefined (e.g. division by zero).
+ */
+export function evaluateMetricExpression(
+  expression: MetricExpression,
+  resolveMetric: (name: string) => number | null
+): number | null {
+  switch (expression.type) {
+    case 'number':
+      return expression.value;
+    case 'metric':
+      return resolveMetric(expression.name);
+    case 'negate': {
+      const operand = evaluateMetricExpression(expression.operand, resolveMetric);
+      return operand === null ? null : -operand;
+    }
+    case 'binary': {
+      const left = evaluateMetricExpression(expression.left, resolveMetric);
+      const right = evaluateMetricExpression(expression.right, resolveMetric);
+      if (left === null || right === null) return null;
+
+      switch (expression.operator) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return right === 0 ? null : left / right;
+      }
+    }
+    case 'call': {
+      const args = expression.args.map(arg => evaluateMetricExpression(arg, resolveMetric));
+      if (args.some(arg => arg === null)) return null;
+
+      const values = args as number[];
+      switch (expression.name) {
+        case 'min':
+          return Math.min(...values);
+        case 'max':
+          return Math.max(...values);
+        case 'abs':
+          return Math.abs(values[0]);
+      }
+    }
+  }
+}
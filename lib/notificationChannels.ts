@@ -0,0 +1,324 @@
+import axios from 'axios';
+import {
+  AutomationNotification,
+  AutomationRule,
+  CampaignWithInsights,
+  ConditionEvaluation,
+  FieldError,
+  NOTIFICATION_CHANNEL_TYPES,
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationChannelType,
+  NotificationDelivery,
+  RuleAction
+} from '@/types';
+import { formatInsightsWindow, getEvaluatedWindow, getWindowData } from './insightsWindows';
+import { hasPlaceholders, renderMessageTemplate } from './messageTemplate';
+import { isValidSlug } from './ruleSlugs';
+import { sendMail } from './smtpClient';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Stands in for secrets in API responses; sent back on update, it keeps the stored value
+export const REDACTED_VALUE = '[redacted]';
+
+// Settings each channel type accepts; anything else is rejected
+const CONFIG_KEYS: Record<NotificationChannelType, string[]> = {
+  webhook: ['url', 'headers'],
+  slack: ['webhookUrl', 'channel', 'username'],
+  email: ['host', 'port', 'secure', 'username', 'password', 'allowInsecureAuth', 'from', 'to']
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isHttpUrl = (value: unknown) => {
+  if (typeof value !== 'string') return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// "ops@example.com" or "Ops Team <ops@example.com>", without line breaks
+const isEmailAddress = (value: unknown) =>
+  typeof value === 'string' && /^([^\r\n<>]*<[^\s@<>]+@[^\s@<>]+>|[^\s@<>]+@[^\s@<>]+)$/.test(value.trim());
+
+const fieldError = (field: string, message: string): FieldError => ({ field, message });
+
+function validateChannelConfig(
+  type: NotificationChannelType,
+  config: Record<string, unknown>,
+  existing?: NotificationChannel
+): FieldError[] {
+  const errors: FieldError[] = Object.keys(config)
+    .filter(key => !CONFIG_KEYS[type].includes(key))
+    .map(key => fieldError(`config.${key}`, `is not a setting of ${type} channels`));
+
+  const optionalString = (key: string) => {
+    if (config[key] !== undefined && typeof config[key] !== 'string') {
+      errors.push(fieldError(`config.${key}`, 'must be a string'));
+    }
+  };
+
+  const optionalBoolean = (key: string) => {
+    if (config[key] !== undefined && typeof config[key] !== 'boolean') {
+      errors.push(fieldError(`config.${key}`, 'must be true or false'));
+    }
+  };
+
+  switch (type) {
+    case 'webhook': {
+      if (!isHttpUrl(config.url)) errors.push(fieldError('config.url', 'must be an http(s) URL'));
+      if (config.headers !== undefined &&
+          !(isObject(config.headers) && Object.values(config.headers).every(value => typeof value === 'string'))) {
+        errors.push(fieldError('config.headers', 'must map header names to strings'));
+      }
+      const storedHeaders = existing?.type === 'webhook' ? existing.config.headers || {} : {};
+      for (const [name, value] of Object.entries(isObject(config.headers) ? config.headers : {})) {
+        if (value === REDACTED_VALUE && storedHeaders[name] === undefined) {
+          errors.push(fieldError(`config.headers.${name}`, 'is redacted but the channel has no stored value'));
+        }
+      }
+      break;
+    }
+    case 'slack':
+      if (config.webhookUrl === REDACTED_VALUE) {
+        if (existing?.type !== 'slack') {
+          errors.push(fieldError('config.webhookUrl', 'is redacted but the channel has no stored value'));
+        }
+      } else if (!isHttpUrl(config.webhookUrl)) {
+        errors.push(fieldError('config.webhookUrl', 'must be an http(s) URL'));
+      }
+      optionalString('channel');
+      optionalString('username');
+      break;
+    case 'email':
+      if (typeof config.host !== 'string' || !config.host.trim()) {
+        errors.push(fieldError('config.host', 'must be a non-empty string'));
+      }
+      if (!Number.isInteger(config.port) || (config.port as number) < 1 || (config.port as number) > 65535) {
+        errors.push(fieldError('config.port', 'must be a port number'));
+      }
+      optionalBoolean('secure');
+      optionalBoolean('allowInsecureAuth');
+      optionalString('username');
+      optionalString('password');
+      if (!isEmailAddress(config.from)) errors.push(fieldError('config.from', 'must be an email address'));
+      if (!Array.isArray(config.to) || config.to.length === 0) {
+        errors.push(fieldError('config.to', 'must be a non-empty list of email addresses'));
+      } else {
+        config.to.forEach((address, index) => {
+          if (!isEmailAddress(address)) errors.push(fieldError(`config.to[${index}]`, 'must be an email address'));
+        });
+      }
+      break;
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a notification channel (`NotificationChannelInput`). Redacted secrets are
+ * only accepted when updating the `existing` channel that holds them.
+ */
+export function validateNotificationChannel(channel: unknown, existing?: NotificationChannel): FieldError[] {
+  if (!isObject(channel)) return [fieldError('channel', 'must be an object')];
+
+  const errors: FieldError[] = Object.keys(channel)
+    .filter(key => !['id', 'name', 'type', 'config'].includes(key))
+    .map(key => fieldError(key, 'is not a channel field'));
+
+  if (!isValidSlug(channel.id)) {
+    errors.push(fieldError('id', 'must be lowercase letters and digits joined by hyphens'));
+  }
+  if (typeof channel.name !== 'string' || !channel.name.trim()) {
+    errors.push(fieldError('name', 'must be a non-empty string'));
+  }
+  if (!NOTIFICATION_CHANNEL_TYPES.includes(channel.type as NotificationChannelType)) {
+    errors.push(fieldError('type', `must be one of ${NOTIFICATION_CHANNEL_TYPES.join(', ')}`));
+  } else if (!isObject(channel.config)) {
+    errors.push(fieldError('config', 'must be an object'));
+  } else {
+    errors.push(...validateChannelConfig(channel.type as NotificationChannelType, channel.config, existing));
+  }
+
+  return errors;
+}
+
+/**
+ * A channel as returned by the API: webhook header values and the Slack webhook URL
+ * are redacted, and the SMTP password is left out
+ */
+export function toPublicChannel(channel: NotificationChannel): NotificationChannel {
+  switch (channel.type) {
+    case 'webhook': {
+      if (!channel.config.headers) return channel;
+      const headers = Object.fromEntries(Object.keys(channel.config.headers).map(name => [name, REDACTED_VALUE]));
+      return { ...channel, config: { ...channel.config, headers } };
+    }
+    case 'slack':
+      return { ...channel, config: { ...channel.config, webhookUrl: REDACTED_VALUE } };
+    case 'email': {
+      if (channel.config.password === undefined) return channel;
+      const config = { ...channel.config };
+      delete config.password;
+      return { ...channel, config };
+    }
+  }
+}
+
+/**
+ * Put the stored secrets of `existing` back in place of redacted values in an update.
+ * An email channel updated without a password keeps its current one.
+ */
+export function restoreChannelSecrets(
+  input: NotificationChannelInput,
+  existing: NotificationChannel | null
+): NotificationChannelInput {
+  if (input.type === 'webhook' && existing?.type === 'webhook' && input.config.headers) {
+    const stored = existing.config.headers || {};
+    const headers = Object.fromEntries(Object.entries(input.config.headers).map(([name, value]) =>
+      [name, value === REDACTED_VALUE ? stored[name] : value]
+    ));
+    return { ...input, config: { ...input.config, headers } };
+  }
+  if (input.type === 'slack' && existing?.type === 'slack' && input.config.webhookUrl === REDACTED_VALUE) {
+    return { ...input, config: { ...input.config, webhookUrl: existing.config.webhookUrl } };
+  }
+  if (input.type === 'email' && existing?.type === 'email' &&
+      input.config.password === undefined && existing.config.password !== undefined) {
+    return { ...input, config: { ...input.config, password: existing.config.password } };
+  }
+  return input;
+}
+
+/**
+ * Fill in the placeholders of a message template. Messages saved before templates were
+ * validated are sent as they are when they do not render.
+ */
+function renderMessage(
+  message: string,
+  rule: AutomationRule,
+  campaignData: CampaignWithInsights,
+  conditions?: ConditionEvaluation[]
+): string {
+  if (!hasPlaceholders(message)) return message;
+
+  try {
+    return renderMessageTemplate(message, { rule, campaignData, conditions });
+  } catch (error) {
+    console.warn(`⚠️ Notification message of rule "${rule.name}" is sent unrendered: ${(error as Error).message}`);
+    return message;
+  }
+}
+
+/**
+ * Build the notification a SEND_NOTIFICATION action sends. The action's `message`
+ * parameter (a message template) replaces the default summary line; `conditions` are
+ * the condition results available to its placeholders. Spend and CTR are those of the
+ * window the conditions were evaluated over.
+ */
+export function buildRuleNotification(
+  rule: AutomationRule,
+  campaignData: CampaignWithInsights,
+  action: RuleAction,
+  conditions?: ConditionEvaluation[],
+  now: Date = new Date()
+): AutomationNotification {
+  const { campaign } = campaignData;
+  const window = getEvaluatedWindow(conditions);
+  const insights = getWindowData(campaignData, window)?.insights;
+  const customMessage = typeof action.parameters?.message === 'string'
+    ? renderMessage(action.parameters.message.trim(), rule, campaignData, conditions)
+    : '';
+
+  const message = [
+    customMessage || `Rule "${rule.name}" triggered for campaign "${campaign.name}".`,
+    '',
+    `Campaign: ${campaign.name} (${campaign.id})`,
+    `Rule: ${rule.name}`,
+    `Spend (${formatInsightsWindow(window)}): $${parseFloat(insights?.spend || '0').toFixed(2)}, ` +
+      `CTR: ${parseFloat(insights?.ctr || '0').toFixed(2)}%`
+  ].join('\n');
+
+  return {
+    subject: `[Automation] ${rule.name}: ${campaign.name}`,
+    message,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    campaignId: campaign.id,
+    campaignName: campaign.name,
+    timestamp: now.toISOString()
+  };
+}
+
+/**
+ * Turn a failed delivery into a readable message, including a short response body
+ * (Slack answers errors like "invalid_token" in plain text)
+ */
+function describeDeliveryError(error: unknown): string {
+  if (axios.isAxiosError(error) && error.response) {
+    const body = typeof error.response.data === 'string' ? error.response.data.trim().slice(0, 200) : '';
+    return `HTTP ${error.response.status}${body ? `: ${body}` : ''}`;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+async function send(channel: NotificationChannel, notification: AutomationNotification): Promise<void> {
+  switch (channel.type) {
+    case 'webhook':
+      await axios.post(channel.config.url, { event: 'automation.rule_triggered', ...notification }, {
+        headers: { 'Content-Type': 'application/json', ...channel.config.headers },
+        timeout: REQUEST_TIMEOUT_MS
+      });
+      return;
+    case 'slack':
+      await axios.post(channel.config.webhookUrl, {
+        text: `*${notification.subject}*\n${notification.message}`,
+        ...(channel.config.channel && { channel: channel.config.channel }),
+        ...(channel.config.username && { username: channel.config.username })
+      }, { timeout: REQUEST_TIMEOUT_MS });
+      return;
+    case 'email':
+      await sendMail(channel.config, {
+        from: channel.config.from,
+        to: channel.config.to,
+        subject: notification.subject,
+        text: notification.message
+      });
+      return;
+  }
+}
+
+/**
+ * Deliver a notification to one channel. Failures are returned, never thrown.
+ */
+export async function deliverNotification(
+  channel: NotificationChannel,
+  notification: AutomationNotification
+): Promise<NotificationDelivery> {
+  const delivery = { channelId: channel.id, channelType: channel.type };
+
+  try {
+    await send(channel, notification);
+    console.log(`📣 Notification sent to ${channel.type} channel "${channel.id}"`);
+    return { ...delivery, status: 'delivered', timestamp: new Date().toISOString() };
+  } catch (error) {
+    const message = describeDeliveryError(error);
+    console.error(`❌ Notification to ${channel.type} channel "${channel.id}" failed: ${message}`);
+    return { ...delivery, status: 'failed', error: message, timestamp: new Date().toISOString() };
+  }
+}
+
+/**
+ * Summarize deliveries for the execution log, e.g. "notified ops-slack (failed: ops-email)"
+ */
+export function describeDeliveries(deliveries: NotificationDelivery[]): string {
+  const delivered = deliveries.filter(d => d.status === 'delivered').map(d => d.channelId);
+  const failed = deliveries.filter(d => d.status === 'failed').map(d => d.channelId);
+
+  if (delivered.length === 0) return `notification failed for ${failed.join(', ')}`;
+  return `notified ${delivered.join(', ')}${failed.length > 0 ? ` (failed: ${failed.join(', ')})` : ''}`;
+}
@@ -0,0 +1,840 @@
+import {
+  ACTION_FAILURE_POLICIES,
+  ACTION_TYPES,
+  ActionFailurePolicy,
+  ActionType,
+  AutomationRule,
+  ComparisonOperator,
+  ConditionGroup,
+  ConditionGroupInput,
+  ConditionNodeInput,
+  CONFIDENCE_LEVELS,
+  ConfidenceLevel,
+  CreateRuleForm,
+  DataRequirements,
+  INSIGHTS_DATE_PRESETS,
+  InsightsWindow,
+  LogicalOperator,
+  RuleCondition,
+  RuleAction,
+  RuleActionStep,
+  RuleConditionInput,
+  RuleHysteresisInput,
+  RuleSchedule,
+  RuleScope,
+  TriggerCap,
+  Weekday,
+  WEEKDAYS
+} from '@/types';
+import { isConditionGroup } from './conditionTree';
+import { getActionSteps } from './actionSequence';
+import { getInsightsWindowKey } from './insightsWindows';
+import { MetricExpressionError, parseMetricExpression } from './metricExpression';
+
+/**
+ * A compact text language for automation rules, e.g.
+ *
+ *   RULE "High Spend Protection"
+ *   ON CAMPAIGN "120225449479650554"
+ *   WHEN spend > 100 AND (roas < 1.5 OR cpc > 4)
+ *   OVER last_7d
+ *   THEN PAUSE_CAMPAIGN
+ *   COOLDOWN 24h
+ *   HOLD 3 RUNS FOR 1h
+ *   RECOVER roas >= 2
+ *   NOTIFY "ops-slack", "ops-email"
+ *
+ * Clauses may appear in any order and each at most once, except THEN: several THEN
+ * clauses form an action sequence. WHEN and THEN are required.
+ * Keywords are upper case, `#` starts a comment. See the README for the full syntax.
+ */
+
+interface Token {
+  type: 'keyword' | 'identifier' | 'number' | 'string' | 'date' | 'time' | 'duration' | 'comparison' | 'symbol';
+  text: string;
+  offset: number;
+  line: number;
+  column: number;
+}
+
+const KEYWORDS = new Set([
+  'RULE', 'SLUG', 'DESCRIPTION', 'ON', 'CAMPAIGN', 'ACCOUNT', 'NAME', 'OBJECTIVE', 'STATUS', 'TAG',
+  'WHEN', 'AND', 'OR', 'IN', 'VS', 'CHANGE', 'CONFIDENCE', 'OVER', 'THEN', 'PRIORITY', 'STOP',
+  'COOLDOWN', 'MAX', 'PER', 'REQUIRE', 'SCHEDULE', 'DAYS', 'TZ', 'FROM', 'UNTIL', 'FAILURE', 'UNDO',
+  'HOLD', 'RUNS', 'FOR', 'RECOVER', 'NOTIFY', 'ALL'
+]);
+
+// Keywords that start a top-level clause
+const CLAUSE_KEYWORDS = new Set([
+  'RULE', 'SLUG', 'DESCRIPTION', 'ON', 'WHEN', 'OVER', 'THEN', 'PRIORITY', 'STOP', 'COOLDOWN', 'MAX', 'REQUIRE', 'SCHEDULE',
+  'HOLD', 'RECOVER', 'NOTIFY'
+]);
+
+// Keywords that end a metric expression inside a condition
+const CONDITION_KEYWORDS = new Set(['AND', 'OR', 'IN', 'VS', 'CHANGE', 'CONFIDENCE']);
+
+const SCOPE_KEYWORDS = new Set(['CAMPAIGN', 'ACCOUNT', 'NAME', 'OBJECTIVE', 'STATUS', 'TAG']);
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['>=', '<=', '!=', '>', '<', '='];
+
+// REQUIRE clause names for each minimum-data gate
+const REQUIREMENT_NAMES: Record<string, keyof DataRequirements> = {
+  impressions: 'minImpressions',
+  clicks: 'minClicks',
+  spend: 'minSpend',
+  days: 'minDaysRunning'
+};
+
+const DURATION_MINUTES: Record<string, number> = { m: 1, h: 60, d: 24 * 60 };
+
+const WINDOW_PRESETS = new Set<string>(
+  INSIGHTS_DATE_PRESETS.map(preset => preset.key).filter(key => key !== 'custom')
+);
+
+const TOKEN_PATTERNS: [Token['type'], RegExp][] = [
+  ['string', /^"(?:[^"\\\n]|\\.)*"/],
+  ['date', /^\d{4}-\d{2}-\d{2}(?![\d:])/],
+  ['time', /^\d{2}:\d{2}(?!\d)/],
+  ['duration', /^\d+(\.\d+)?([eE][-+]?\d+)?[mhd](?![A-Za-z0-9_])/],
+  ['number', /^(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?/],
+  ['identifier', /^[A-Za-z_][A-Za-z0-9_.]*/],
+  ['comparison', /^(>=|<=|!=|>|<|=)/],
+  ['symbol', /^(\.\.|[-+*/(),%])/]
+];
+
+export class RuleDslError extends Error {
+  constructor(
+    public readonly detail: string,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(`${detail} at line ${line}, column ${column}`);
+    this.name = 'RuleDslError';
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  while (offset < source.length) {
+    const char = source[offset];
+
+    if (char === '\n') {
+      offset++;
+      line++;
+      lineStart = offset;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      offset++;
+      continue;
+    }
+
+    if (char === '#') {
+      while (offset < source.length && source[offset] !== '\n') offset++;
+      continue;
+    }
+
+    const rest = source.slice(offset);
+    const match = TOKEN_PATTERNS
+      .map(([type, pattern]) => ({ type, text: rest.match(pattern)?.[0] }))
+      .find(candidate => candidate.text);
+
+    if (!match) {
+      throw new RuleDslError(`Unexpected character "${char}"`, line, offset - lineStart + 1);
+    }
+
+    const type = match.type === 'identifier' && KEYWORDS.has(match.text!) ? 'keyword' : match.type;
+    tokens.push({ type, text: match.text!, offset, line, column: offset - lineStart + 1 });
+    offset += match.text!.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser producing a rule form
+ */
+class Parser {
+  private index = 0;
+  private readonly seenClauses = new Set<string>();
+
+  constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+  parse(): CreateRuleForm {
+    if (this.tokens.length === 0) {
+      throw new RuleDslError('Rule is empty', 1, 1);
+    }
+
+    const form: Partial<CreateRuleForm> = {};
+    const scope: RuleScope = {};
+    let scopeAll = false;
+    const steps: RuleActionStep[] = [];
+    const hysteresis: RuleHysteresisInput = {};
+    let ruleWindow: InsightsWindow | undefined;
+
+    while (this.peek()) {
+      const token = this.next();
+
+      if (token.type !== 'keyword' || !CLAUSE_KEYWORDS.has(token.text)) {
+        this.fail(`Expected a clause such as WHEN or THEN but found "${token.text}"`, token);
+      }
+      if (this.seenClauses.has(token.text) && token.text !== 'THEN') {
+        this.fail(`Duplicate ${token.text} clause`, token);
+      }
+      this.seenClauses.add(token.text);
+
+      switch (token.text) {
+        case 'RULE':
+          form.name = this.parseString();
+          break;
+        case 'SLUG':
+          form.slug = this.parseString();
+          break;
+        case 'DESCRIPTION':
+          form.description = this.parseString();
+          break;
+        case 'ON':
+          scopeAll = this.parseScope(scope);
+          break;
+        case 'WHEN':
+          form.conditions = this.parseConditions();
+          break;
+        case 'OVER':
+          ruleWindow = this.parseWindow();
+          break;
+        case 'THEN':
+          steps.push(this.parseActionStep());
+          break;
+        case 'PRIORITY':
+          form.priority = this.parseNumber();
+          break;
+        case 'STOP':
+          form.stopProcessing = true;
+          break;
+        case 'COOLDOWN':
+          form.cooldownMinutes = this.parseDuration();
+          break;
+        case 'MAX':
+          form.maxTriggers = this.parseTriggerCap();
+          break;
+        case 'REQUIRE':
+          form.dataRequirements = this.parseRequirements();
+          break;
+        case 'SCHEDULE':
+          form.schedule = this.parseSchedule();
+          break;
+        case 'HOLD':
+          this.parseHold(hysteresis);
+          break;
+        case 'RECOVER':
+          hysteresis.recovery = this.parseConditions();
+          break;
+        case 'NOTIFY':
+          form.notificationChannels = this.parseList(() => this.parseString());
+          break;
+      }
+    }
+
+    if (!form.conditions) this.fail('Missing WHEN clause', this.endToken());
+    if (steps.length === 0) this.fail('Missing THEN clause', this.endToken());
+
+    // A lone THEN without failure handling is a plain single action
+    const [first] = steps;
+    form.actionType = first.type;
+    if (first.parameters) form.actionParameters = first.parameters;
+    if (steps.length > 1 || first.onFailure || first.compensation) form.actions = steps;
+
+    if (Object.keys(hysteresis).length > 0) form.hysteresis = hysteresis;
+
+    // The rule-level window applies to every WHEN condition without its own
+    if (ruleWindow) applyDefaultWindow(form.conditions as ConditionGroupInput, ruleWindow);
+
+    // A single campaign and nothing else is a plain campaign rule
+    const scopeKeys = Object.keys(scope);
+    if (scopeKeys.length === 1 && scope.campaignIds?.length === 1) {
+      form.campaignId = scope.campaignIds[0];
+    } else if (scopeKeys.length > 0 || scopeAll) {
+      form.scope = scope;
+    }
+
+    return {
+      name: 'Untitled rule',
+      description: '',
+      ...form
+    } as CreateRuleForm;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) this.fail('Unexpected end of rule', this.endToken());
+    return token;
+  }
+
+  private isKeyword(text: string, token: Token | undefined = this.peek()): boolean {
+    return token?.type === 'keyword' && token.text === text;
+  }
+
+  private expect(text: string): Token {
+    const token = this.next();
+    if (token.text !== text) this.fail(`Expected "${text}" but found "${token.text}"`, token);
+    return token;
+  }
+
+  private expectType(type: Token['type'], description: string): Token {
+    const token = this.next();
+    if (token.type !== type) this.fail(`Expected ${description} but found "${token.text}"`, token);
+    return token;
+  }
+
+  private fail(message: string, token: Pick<Token, 'line' | 'column'>): never {
+    throw new RuleDslError(message, token.line, token.column);
+  }
+
+  // Position just past the last token, for errors about missing input
+  private endToken(): Pick<Token, 'line' | 'column'> {
+    const last = this.tokens[this.tokens.length - 1];
+    return last ? { line: last.line, column: last.column + last.text.length } : { line: 1, column: 1 };
+  }
+
+  private consumeComma(): boolean {
+    if (this.peek()?.text !== ',') return false;
+    this.next();
+    return true;
+  }
+
+  private parseString(): string {
+    const token = this.expectType('string', 'a quoted string');
+    try {
+      return JSON.parse(token.text);
+    } catch {
+      this.fail('Invalid escape sequence in string', token);
+    }
+  }
+
+  private parseNumber(): number {
+    const negative = this.peek()?.text === '-';
+    if (negative) this.next();
+    const value = parseFloat(this.expectType('number', 'a number').text);
+    return negative ? -value : value;
+  }
+
+  private parseDuration(): number {
+    const token = this.next();
+
+    if (token.type === 'duration') {
+      return parseFloat(token.text) * DURATION_MINUTES[token.text.slice(-1)];
+    }
+    if (token.type === 'number') return parseFloat(token.text);
+
+    this.fail(`Expected a duration such as 30m, 24h or 7d but found "${token.text}"`, token);
+  }
+
+  private parseWindow(): InsightsWindow {
+    const token = this.next();
+
+    if (token.type === 'date') {
+      this.expect('..');
+      const until = this.expectType('date', 'an end date').text;
+      return { preset: 'custom', since: token.text, until };
+    }
+
+    if (token.type === 'identifier' && WINDOW_PRESETS.has(token.text)) {
+      return { preset: token.text as InsightsWindow['preset'] };
+    }
+
+    this.fail(
+      `Expected a window (${[...WINDOW_PRESETS].join(', ')} or YYYY-MM-DD..YYYY-MM-DD) but found "${token.text}"`,
+      token
+    );
+  }
+
+  // ON CAMPAIGN "a", "b" ACCOUNT "act_1" NAME "Brand*" OBJECTIVE X STATUS ACTIVE TAG "t", or ON ALL
+  // for every campaign of the default ad account (an empty scope). Returns whether ON ALL was used.
+  private parseScope(scope: RuleScope): boolean {
+    if (this.isKeyword('ALL')) {
+      this.next();
+      return true;
+    }
+    if (!SCOPE_KEYWORDS.has(this.peek()?.text || '')) {
+      this.fail('Expected ALL, CAMPAIGN, ACCOUNT, NAME, OBJECTIVE, STATUS or TAG after ON', this.peek() || this.endToken());
+    }
+
+    while (this.peek()?.type === 'keyword' && SCOPE_KEYWORDS.has(this.peek()!.text)) {
+      const keyword = this.next().text;
+
+      switch (keyword) {
+        case 'CAMPAIGN':
+          scope.campaignIds = this.parseList(() => this.parseString());
+          break;
+        case 'ACCOUNT':
+          scope.adAccountId = this.parseString();
+          break;
+        case 'NAME':
+          scope.namePattern = this.parseString();
+          break;
+        case 'OBJECTIVE':
+          scope.objectives = this.parseList(() => this.expectType('identifier', 'an objective').text);
+          break;
+        case 'STATUS':
+          scope.statuses = this.parseList(() =>
+            this.expectType('identifier', 'a status').text
+          ) as RuleScope['statuses'];
+          break;
+        case 'TAG':
+          scope.tags = this.parseList(() => this.parseString());
+          break;
+      }
+    }
+    return false;
+  }
+
+  private parseList<T>(parseItem: () => T): T[] {
+    const items = [parseItem()];
+    while (this.consumeComma()) items.push(parseItem());
+    return items;
+  }
+
+  private parseConditions(): ConditionGroupInput {
+    const node = this.parseOr();
+    return isConditionGroup(node) ? node : { type: 'group', operator: 'AND', conditions: [node] };
+  }
+
+  private parseOr(): ConditionNodeInput {
+    return this.parseChain('OR', () => this.parseAnd());
+  }
+
+  private parseAnd(): ConditionNodeInput {
+    return this.parseChain('AND', () => this.parsePrimary());
+  }
+
+  private parseChain(operator: LogicalOperator, parseOperand: () => ConditionNodeInput): ConditionNodeInput {
+    const nodes = [parseOperand()];
+    while (this.isKeyword(operator)) {
+      this.next();
+      nodes.push(parseOperand());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'group', operator, conditions: nodes };
+  }
+
+  private parsePrimary(): ConditionNodeInput {
+    if (this.peek()?.text === '(' && this.isGroupParenthesis()) {
+      this.next();
+      const node = this.parseOr();
+      this.expect(')');
+      return isConditionGroup(node) ? node : { type: 'group', operator: 'AND', conditions: [node] };
+    }
+
+    return this.parseComparison();
+  }
+
+  // A parenthesis opens a condition group if it contains a comparison; otherwise it is
+  // part of a metric expression such as `(spend + 10) / clicks`
+  private isGroupParenthesis(): boolean {
+    let depth = 0;
+    for (let index = this.index; index < this.tokens.length; index++) {
+      const token = this.tokens[index];
+      if (token.text === '(') depth++;
+      if (token.text === ')' && --depth === 0) return false;
+      if (token.type === 'comparison' || (token.type === 'keyword' && CONDITION_KEYWORDS.has(token.text))) return true;
+    }
+    return false;
+  }
+
+  // Collect the tokens of a metric expression, stopping at a keyword, comparison or unbalanced ")"
+  private collectExpression(): Token[] {
+    const tokens: Token[] = [];
+    let depth = 0;
+
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.type === 'keyword' || token.type === 'comparison') break;
+      if (token.text === ')' && depth === 0) break;
+      if (token.text === '(') depth++;
+      if (token.text === ')') depth--;
+      tokens.push(this.next());
+    }
+
+    return tokens;
+  }
+
+  // Validate a metric expression, reporting errors at their position in the rule
+  private parseExpression(tokens: Token[], description: string): string {
+    if (tokens.length === 0) this.fail(`Expected ${description}`, this.peek() || this.endToken());
+
+    const start = tokens[0];
+    const last = tokens[tokens.length - 1];
+    const expression = this.source.slice(start.offset, last.offset + last.text.length);
+
+    try {
+      parseMetricExpression(expression);
+    } catch (error) {
+      if (!(error instanceof MetricExpressionError)) throw error;
+
+      const offset = start.offset + error.position;
+      const token = [...tokens].reverse().find(t => t.offset <= offset) || start;
+      this.fail(error.detail, { line: token.line, column: token.column + (offset - token.offset) });
+    }
+
+    return expression;
+  }
+
+  // metric [CHANGE [%]] op value [VS window] [IN window] [CONFIDENCE n%]
+  private parseComparison(): RuleConditionInput {
+    const field = this.parseExpression(this.collectExpression(), 'a metric');
+    const condition: Partial<RuleConditionInput> = { field };
+
+    if (this.isKeyword('CHANGE')) {
+      this.next();
+      const percent = this.peek()?.text === '%';
+      if (percent) this.next();
+      condition.change = { mode: percent ? 'percent' : 'absolute', baseline: 'previous_period' };
+    }
+
+    const operator = this.next();
+    if (operator.type !== 'comparison') {
+      this.fail(`Expected a comparison (${COMPARISON_OPERATORS.join(' ')}) but found "${operator.text}"`, operator);
+    }
+    condition.operator = operator.text as ComparisonOperator;
+
+    const valueTokens = this.collectExpression();
+    const valueText = this.parseExpression(valueTokens, 'a value');
+    const isNumber = valueTokens.length === 1 && valueTokens[0].type === 'number' ||
+      valueTokens.length === 2 && valueTokens[0].text === '-' && valueTokens[1].type === 'number';
+
+    if (isNumber) {
+      condition.value = parseFloat(valueText.replace(/\s+/g, ''));
+    } else {
+      condition.value = 0;
+      condition.valueExpression = valueText;
+    }
+
+    for (;;) {
+      if (this.isKeyword('VS')) {
+        const token = this.next();
+        if (!condition.change) this.fail('VS is only allowed after CHANGE', token);
+        if (this.peek()?.text === 'previous_period') {
+          this.next();
+          condition.change!.baseline = 'previous_period';
+        } else {
+          condition.change!.baseline = this.parseWindow();
+        }
+      } else if (this.isKeyword('IN')) {
+        this.next();
+        condition.window = this.parseWindow();
+      } else if (this.isKeyword('CONFIDENCE')) {
+        this.next();
+        const token = this.peek() || this.endToken();
+        const level = this.parseNumber() / 100;
+        this.expect('%');
+        if (!CONFIDENCE_LEVELS.includes(level as ConfidenceLevel)) {
+          this.fail(`Confidence must be one of ${CONFIDENCE_LEVELS.map(c => `${c * 100}%`).join(', ')}`, token);
+        }
+        condition.confidence = level as ConfidenceLevel;
+      } else {
+        break;
+      }
+    }
+
+    return condition as RuleConditionInput;
+  }
+
+  // THEN ACTION [key=value, ...] [ON FAILURE continue|stop|compensate] [UNDO ACTION [key=value, ...]]
+  private parseActionStep(): RuleActionStep {
+    const step: RuleActionStep = this.parseAction();
+
+    if (this.isKeyword('ON') && this.isKeyword('FAILURE', this.peek(1))) {
+      this.next();
+      this.next();
+      const token = this.next();
+      if (!ACTION_FAILURE_POLICIES.includes(token.text as ActionFailurePolicy)) {
+        this.fail(`Unknown failure policy "${token.text}" (expected ${ACTION_FAILURE_POLICIES.join(', ')})`, token);
+      }
+      step.onFailure = token.text as ActionFailurePolicy;
+    }
+
+    if (this.isKeyword('UNDO')) {
+      this.next();
+      step.compensation = this.parseAction();
+    }
+
+    return step;
+  }
+
+  // ACTION [key=value[, key=value]]
+  private parseAction(): RuleAction {
+    const token = this.next();
+    if (!ACTION_TYPES.includes(token.text as ActionType)) {
+      this.fail(`Unknown action "${token.text}" (expected ${ACTION_TYPES.join(', ')})`, token);
+    }
+    const action: RuleAction = { type: token.text as ActionType };
+
+    const parameters: Record<string, string | number | boolean> = {};
+    while (this.peek()?.type === 'identifier' && this.peek(1)?.text === '=') {
+      const key = this.next().text;
+      this.next();
+
+      const value = this.peek();
+      if (value?.type === 'string') {
+        parameters[key] = this.parseString();
+      } else if (value?.text === 'true' || value?.text === 'false') {
+        parameters[key] = this.next().text === 'true';
+      } else {
+        parameters[key] = this.parseNumber();
+      }
+
+      this.consumeComma();
+    }
+
+    if (Object.keys(parameters).length > 0) action.parameters = parameters;
+    return action;
+  }
+
+  // MAX 3 PER day
+  private parseTriggerCap(): TriggerCap {
+    const countToken = this.peek() || this.endToken();
+    const count = this.parseNumber();
+    if (!Number.isInteger(count) || count < 1) this.fail('MAX needs a positive whole number', countToken);
+
+    this.expect('PER');
+    const period = this.next();
+    if (period.text !== 'day' && period.text !== 'week') {
+      this.fail(`Expected day or week but found "${period.text}"`, period);
+    }
+
+    return { count, period: period.text };
+  }
+
+  // REQUIRE impressions 1000, clicks 50, spend 20, days 3
+  private parseRequirements(): DataRequirements {
+    const requirements: DataRequirements = {};
+
+    do {
+      const token = this.next();
+      const field = REQUIREMENT_NAMES[token.text];
+      if (!field) {
+        this.fail(`Expected ${Object.keys(REQUIREMENT_NAMES).join(', ')} but found "${token.text}"`, token);
+      }
+      requirements[field] = this.parseNumber();
+    } while (this.consumeComma());
+
+    return requirements;
+  }
+
+  // HOLD 3 RUNS [FOR 30m] or HOLD FOR 30m
+  private parseHold(hysteresis: RuleHysteresisInput): void {
+    if (!this.isKeyword('FOR')) {
+      const countToken = this.peek() || this.endToken();
+      const count = this.parseNumber();
+      if (!Number.isInteger(count) || count < 1) this.fail('HOLD needs a positive whole number of runs', countToken);
+      this.expect('RUNS');
+      hysteresis.consecutiveEvaluations = count;
+    }
+
+    if (this.isKeyword('FOR')) {
+      this.next();
+      hysteresis.minDurationMinutes = this.parseDuration();
+    }
+  }
+
+  // SCHEDULE [09:00-18:00] [DAYS mon, tue] [TZ "Europe/Paris"] [FROM 2025-01-01] [UNTIL 2025-03-31]
+  private parseSchedule(): RuleSchedule {
+    const schedule: RuleSchedule = {};
+    const start = this.peek() || this.endToken();
+
+    if (this.peek()?.type === 'time') {
+      const from = this.next().text;
+      this.expect('-');
+      schedule.hours = { start: from, end: this.expectType('time', 'an end time (HH:mm)').text };
+    }
+
+    for (;;) {
+      if (this.isKeyword('DAYS')) {
+        this.next();
+        schedule.weekdays = this.parseList(() => {
+          const token = this.next();
+          if (!WEEKDAYS.includes(token.text as Weekday)) {
+            this.fail(`Expected a weekday (${WEEKDAYS.join(', ')}) but found "${token.text}"`, token);
+          }
+          return token.text as Weekday;
+        });
+      } else if (this.isKeyword('TZ')) {
+        this.next();
+        schedule.timezone = this.parseString();
+      } else if (this.isKeyword('FROM')) {
+        this.next();
+        schedule.startDate = this.expectType('date', 'a date (YYYY-MM-DD)').text;
+      } else if (this.isKeyword('UNTIL')) {
+        this.next();
+        schedule.endDate = this.expectType('date', 'a date (YYYY-MM-DD)').text;
+      } else {
+        break;
+      }
+    }
+
+    if (Object.keys(schedule).length === 0) {
+      this.fail('SCHEDULE needs hours (HH:mm-HH:mm), DAYS, TZ, FROM or UNTIL', start);
+    }
+
+    return schedule;
+  }
+}
+
+function applyDefaultWindow(group: ConditionGroupInput, window: InsightsWindow): void {
+  for (const node of group.conditions) {
+    if (isConditionGroup(node)) {
+      applyDefaultWindow(node, window);
+    } else if (!node.window) {
+      node.window = window;
+    }
+  }
+}
+
+/**
+ * Parse rule source, throwing a RuleDslError with the line and column of the first problem
+ */
+export function parseRuleDsl(source: string): CreateRuleForm {
+  return new Parser(tokenize(source), source).parse();
+}
+
+const formatWindow = (window: InsightsWindow) =>
+  window.preset === 'custom' ? `${window.since}..${window.until}` : window.preset;
+
+const formatDuration = (minutes: number) =>
+  minutes % DURATION_MINUTES.d === 0 ? `${minutes / DURATION_MINUTES.d}d`
+    : minutes % DURATION_MINUTES.h === 0 ? `${minutes / DURATION_MINUTES.h}h`
+      : `${minutes}m`;
+
+const formatList = (items: string[], quote: boolean) =>
+  items.map(item => quote ? JSON.stringify(item) : item).join(', ');
+
+function formatCondition(condition: RuleCondition, sharedWindow: boolean): string {
+  let text = condition.field;
+
+  if (condition.change) text += condition.change.mode === 'percent' ? ' CHANGE %' : ' CHANGE';
+  text += ` ${condition.operator} ${condition.valueExpression ?? condition.value}`;
+
+  if (condition.change && condition.change.baseline !== 'previous_period') {
+    text += ` VS ${formatWindow(condition.change.baseline)}`;
+  }
+  if (!sharedWindow && condition.window) text += ` IN ${formatWindow(condition.window)}`;
+  if (condition.confidence) text += ` CONFIDENCE ${condition.confidence * 100}%`;
+
+  return text;
+}
+
+function formatGroup(group: ConditionGroup, sharedWindow: boolean, nested = false): string {
+  const text = group.conditions
+    .map(node => isConditionGroup(node) ? formatGroup(node, sharedWindow, true) : formatCondition(node, sharedWindow))
+    .join(` ${group.operator} `);
+
+  return nested ? `(${text})` : text;
+}
+
+function collectWindowKeys(group: ConditionGroup): Set<string> {
+  const keys = new Set<string>();
+  const visit = (node: ConditionGroup | RuleCondition) => {
+    if (isConditionGroup(node)) {
+      node.conditions.forEach(visit);
+    } else {
+      keys.add(getInsightsWindowKey(node.window));
+    }
+  };
+  visit(group);
+  return keys;
+}
+
+function findFirstWindow(group: ConditionGroup): InsightsWindow | undefined {
+  const [node] = group.conditions;
+  if (!node) return undefined;
+  return isConditionGroup(node) ? findFirstWindow(node) : node.window;
+}
+
+function formatAction(action: RuleAction): string {
+  const parameters = Object.entries(action.parameters || {})
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? JSON.stringify(value) : value}`);
+  return [action.type, parameters.join(', ')].filter(Boolean).join(' ');
+}
+
+/**
+ * Print a rule as DSL source. Parsing the output gives back the same rule configuration.
+ */
+export function formatRuleDsl(rule: AutomationRule): string {
+  const lines = [`RULE ${JSON.stringify(rule.name)} SLUG ${JSON.stringify(rule.slug)}`];
+
+  if (rule.description) lines.push(`DESCRIPTION ${JSON.stringify(rule.description)}`);
+
+  const scope: RuleScope = rule.scope || (rule.campaignId ? { campaignIds: [rule.campaignId] } : {});
+  const targets = [
+    scope.campaignIds?.length && `CAMPAIGN ${formatList(scope.campaignIds, true)}`,
+    scope.adAccountId && `ACCOUNT ${JSON.stringify(scope.adAccountId)}`,
+    scope.namePattern && `NAME ${JSON.stringify(scope.namePattern)}`,
+    scope.objectives?.length && `OBJECTIVE ${formatList(scope.objectives, false)}`,
+    scope.statuses?.length && `STATUS ${formatList(scope.statuses, false)}`,
+    scope.tags?.length && `TAG ${formatList(scope.tags, true)}`
+  ].filter(Boolean);
+  if (targets.length > 0) {
+    lines.push(`ON ${targets.join(' ')}`);
+  } else if (rule.scope) {
+    lines.push('ON ALL');
+  }
+
+  // Print a window shared by every condition once instead of on each condition
+  const sharedWindow = collectWindowKeys(rule.conditions).size === 1;
+  const ruleWindow = sharedWindow ? findFirstWindow(rule.conditions) : undefined;
+  lines.push(`WHEN ${formatGroup(rule.conditions, sharedWindow)}`);
+  if (ruleWindow) lines.push(`OVER ${formatWindow(ruleWindow)}`);
+
+  for (const step of getActionSteps(rule)) {
+    lines.push(['THEN',
+      formatAction(step),
+      step.onFailure && `ON FAILURE ${step.onFailure}`,
+      step.compensation && `UNDO ${formatAction(step.compensation)}`
+    ].filter(Boolean).join(' '));
+  }
+
+  if (rule.priority) lines.push(`PRIORITY ${rule.priority}`);
+  if (rule.stopProcessing) lines.push('STOP');
+  if (rule.cooldownMinutes) lines.push(`COOLDOWN ${formatDuration(rule.cooldownMinutes)}`);
+  if (rule.maxTriggers) lines.push(`MAX ${rule.maxTriggers.count} PER ${rule.maxTriggers.period}`);
+
+  if (rule.hysteresis) {
+    const { consecutiveEvaluations, minDurationMinutes, recovery } = rule.hysteresis;
+    if (consecutiveEvaluations || minDurationMinutes) {
+      lines.push(['HOLD',
+        consecutiveEvaluations && `${consecutiveEvaluations} RUNS`,
+        minDurationMinutes && `FOR ${formatDuration(minDurationMinutes)}`
+      ].filter(Boolean).join(' '));
+    }
+    if (recovery) lines.push(`RECOVER ${formatGroup(recovery, false)}`);
+  }
+
+  if (rule.notificationChannels?.length) lines.push(`NOTIFY ${formatList(rule.notificationChannels, true)}`);
+
+  if (rule.dataRequirements) {
+    const requirements = Object.entries(REQUIREMENT_NAMES)
+      .filter(([, field]) => rule.dataRequirements![field] !== undefined)
+      .map(([name, field]) => `${name} ${rule.dataRequirements![field]}`);
+    if (requirements.length > 0) lines.push(`REQUIRE ${requirements.join(', ')}`);
+  }
+
+  if (rule.schedule) {
+    const { hours, weekdays, timezone, startDate, endDate } = rule.schedule;
+    lines.push(['SCHEDULE',
+      hours && `${hours.start}-${hours.end}`,
+      weekdays?.length && `DAYS ${weekdays.join(', ')}`,
+      timezone && `TZ ${JSON.stringify(timezone)}`,
+      startDate && `FROM ${startDate}`,
+      endDate && `UNTIL ${endDate}`
+    ].filter(Boolean).join(' '));
+  }
+
+  return lines.join('\n');
+}
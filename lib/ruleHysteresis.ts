@@ -0,0 +1,96 @@
+import { AutomationRule, RuleCampaignState, RuleHysteresis, RuleHysteresisInput } from '@/types';
+import { normalizeConditionTree } from './conditionTree';
+
+export interface HysteresisResult {
+  state: RuleCampaignState; // State to save for the next evaluation
+  ready: boolean; // Whether the rule may act on this evaluation
+  code?: 'hysteresis' | 'awaiting_recovery' | 'recovered';
+  reason?: string;
+}
+
+/**
+ * Normalize hysteresis input, giving the recovery condition tree IDs
+ */
+export function normalizeHysteresis(hysteresis: RuleHysteresisInput | undefined): RuleHysteresis | undefined {
+  if (!hysteresis) return undefined;
+
+  const { recovery, ...rest } = hysteresis;
+  return recovery ? { ...rest, recovery: normalizeConditionTree(recovery) } : rest;
+}
+
+/**
+ * Advance a rule's hysteresis for one evaluation of a campaign.
+ *
+ * While a rule waits for recovery it never fires; `isRecovered` is only asked then and
+ * returns null when there is not enough data to tell. Otherwise matches are counted and
+ * the rule is ready once the streak is long enough, in evaluations and in time.
+ *
+ * Only ready rules take part in conflict resolution, so a rule still building its streak
+ * does not suppress lower-priority rules. The rule is latched (see `latchHysteresis`)
+ * only when it actually runs: a ready rule suppressed by a higher-priority one keeps its
+ * streak and acts on the next run in which it is not suppressed.
+ */
+export function advanceHysteresis(
+  rule: AutomationRule,
+  state: RuleCampaignState | null,
+  campaignId: string,
+  matched: boolean,
+  isRecovered: () => boolean | null,
+  now: Date = new Date()
+): HysteresisResult {
+  const { consecutiveEvaluations = 1, minDurationMinutes } = rule.hysteresis || {};
+  const current: RuleCampaignState = state || { ruleId: rule.id, campaignId, triggerHistory: [] };
+  const resetStreak: RuleCampaignState = { ...current, consecutiveMatches: 0, matchingSince: undefined };
+
+  if (current.awaitingRecovery) {
+    if (!isRecovered()) {
+      return {
+        state: current,
+        ready: false,
+        code: 'awaiting_recovery',
+        reason: 'Skipped: waiting for the recovery condition since the last trigger'
+      };
+    }
+
+    return {
+      state: { ...resetStreak, awaitingRecovery: false },
+      ready: false,
+      code: 'recovered',
+      reason: 'Recovery condition met; the rule can fire again'
+    };
+  }
+
+  if (!matched) return { state: resetStreak, ready: false };
+
+  const consecutiveMatches = (current.consecutiveMatches || 0) + 1;
+  const matchingSince = current.matchingSince || now.toISOString();
+  const next: RuleCampaignState = { ...current, consecutiveMatches, matchingSince };
+
+  if (consecutiveMatches < consecutiveEvaluations) {
+    return {
+      state: next,
+      ready: false,
+      code: 'hysteresis',
+      reason: `Waiting: conditions met ${consecutiveMatches} of ${consecutiveEvaluations} consecutive evaluations`
+    };
+  }
+
+  const heldMinutes = (now.getTime() - new Date(matchingSince).getTime()) / (60 * 1000);
+  if (minDurationMinutes && heldMinutes < minDurationMinutes) {
+    return {
+      state: next,
+      ready: false,
+      code: 'hysteresis',
+      reason: `Waiting: conditions have held for ${Math.floor(heldMinutes)} of ${minDurationMinutes} minutes`
+    };
+  }
+
+  return { state: next, ready: true };
+}
+
+/**
+ * After a rule with hysteresis fires, wait for recovery and start counting from scratch
+ */
+export function latchHysteresis(state: RuleCampaignState): RuleCampaignState {
+  return { ...state, consecutiveMatches: 0, matchingSince: undefined, awaitingRecovery: true };
+}
@@ -0,0 +1,236 @@
+import { RuleSchedule, Weekday, WEEKDAYS } from '@/types';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Look ahead at most this many days when searching for the next eligible time
+const MAX_LOOKAHEAD_DAYS = 400;
+
+interface ZonedTime {
+  date: string; // YYYY-MM-DD
+  weekday: Weekday;
+  minutes: number; // Minutes since local midnight
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get the local date, weekday and time of day of an instant in a timezone
+ */
+function getZonedTime(date: Date, timezone: string): ZonedTime {
+  const parts = Object.fromEntries(
+    getFormatter(timezone).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: parts.weekday.toLowerCase() as Weekday,
+    minutes: parseInt(parts.hour) * 60 + parseInt(parts.minute)
+  };
+}
+
+function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check whether a local time of day falls in the schedule's hours.
+ * `end` is exclusive; a start after the end wraps past midnight (e.g. 22:00–06:00).
+ */
+function isWithinHours(schedule: RuleSchedule, minutes: number): boolean {
+  if (!schedule.hours) return true;
+
+  const start = parseTimeOfDay(schedule.hours.start);
+  const end = parseTimeOfDay(schedule.hours.end);
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Resolve the timezone a schedule is evaluated in
+ */
+export function resolveScheduleTimezone(schedule: RuleSchedule | undefined, accountTimezone?: string): string {
+  return schedule?.timezone || accountTimezone || 'UTC';
+}
+
+/**
+ * The local date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function getLocalDate(date: Date, timezone: string): string {
+  return getZonedTime(date, timezone).date;
+}
+
+/**
+ * Check whether a schedule's end date has passed
+ */
+export function hasScheduleEnded(schedule: RuleSchedule | undefined, now: Date, timezone: string): boolean {
+  return !!schedule?.endDate && getZonedTime(now, timezone).date > schedule.endDate;
+}
+
+/**
+ * Check whether a rule with this schedule may be evaluated at `now`
+ */
+export function isWithinSchedule(schedule: RuleSchedule | undefined, now: Date, timezone: string): boolean {
+  if (!schedule) return true;
+
+  const local = getZonedTime(now, timezone);
+  if (schedule.startDate && local.date < schedule.startDate) return false;
+  if (schedule.endDate && local.date > schedule.endDate) return false;
+  if (schedule.weekdays?.length && !schedule.weekdays.includes(local.weekday)) return false;
+
+  return isWithinHours(schedule, local.minutes);
+}
+
+/**
+ * Find the next time a rule with this schedule may be evaluated (`now` if it already may).
+ * Returns null when the schedule has ended or never becomes eligible.
+ */
+export function getNextEligibleTime(schedule: RuleSchedule | undefined, now: Date, timezone: string): Date | null {
+  let candidate = new Date(now);
+  candidate.setSeconds(0, 0);
+
+  for (let step = 0; step < MAX_LOOKAHEAD_DAYS * 3; step++) {
+    if (isWithinSchedule(schedule, candidate, timezone)) {
+      return candidate < now ? now : candidate;
+    }
+
+    const local = getZonedTime(candidate, timezone);
+    if (schedule?.endDate && local.date > schedule.endDate) return null;
+
+    const dayEligible = (!schedule?.startDate || local.date >= schedule.startDate) &&
+      (!schedule?.weekdays?.length || schedule.weekdays.includes(local.weekday));
+    const start = schedule?.hours ? parseTimeOfDay(schedule.hours.start) : 0;
+
+    // Wait for today's window to open, otherwise skip to the next local midnight
+    candidate = dayEligible && local.minutes < start
+      ? new Date(candidate.getTime() + (start - local.minutes) * 60 * 1000)
+      : getNextLocalMidnight(candidate, timezone);
+  }
+
+  return null;
+}
+
+/**
+ * How far a timezone's wall clock is ahead of UTC at an instant, in milliseconds
+ */
+function getTimezoneOffset(date: Date, timezone: string): number {
+  const local = getZonedTime(date, timezone);
+  const [year, month, day] = local.date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day) + local.minutes * 60 * 1000;
+  return wallClock - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+/**
+ * The next midnight in a timezone after `now`. The offset is resolved at the target
+ * day, so days on which daylight saving time starts or ends are 23 or 25 hours long.
+ * Where the clocks skip midnight itself, the first minute of the new day is returned.
+ */
+export function getNextLocalMidnight(now: Date, timezone: string): Date {
+  const [year, month, day] = getZonedTime(now, timezone).date.split('-').map(Number);
+  const target = Date.UTC(year, month - 1, day + 1);
+  const targetDate = new Date(target).toISOString().slice(0, 10);
+
+  // Guess with today's offset, then correct with the offset in effect at the guess
+  const guess = target - getTimezoneOffset(now, timezone);
+  let midnight = new Date(target - getTimezoneOffset(new Date(guess), timezone));
+
+  // The wall clock jumped past midnight: move forward to where the new day starts
+  while (getZonedTime(midnight, timezone).date < targetDate) {
+    const local = getZonedTime(midnight, timezone);
+    midnight = new Date(midnight.getTime() + (MINUTES_PER_DAY - local.minutes) * 60 * 1000);
+  }
+  return midnight;
+}
+
+/**
+ * Format an instant in a timezone, e.g. "Mon, Mar 3, 09:00"
+ */
+export function formatInTimezone(date: Date, timezone: string): string {
+  return date.toLocaleString('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  });
+}
+
+/**
+ * Human readable summary of a schedule
+ */
+export function describeRuleSchedule(schedule: RuleSchedule): string {
+  const parts: string[] = [];
+
+  if (schedule.hours) parts.push(`${schedule.hours.start}–${schedule.hours.end}`);
+  if (schedule.weekdays?.length) {
+    parts.push(WEEKDAYS.filter(day => schedule.weekdays!.includes(day))
+      .map(day => day.charAt(0).toUpperCase() + day.slice(1)).join(', '));
+  }
+  if (schedule.startDate) parts.push(`from ${schedule.startDate}`);
+  if (schedule.endDate) parts.push(`until ${schedule.endDate}`);
+
+  return parts.join(' · ') || 'Always';
+}
+
+/**
+ * Validate a schedule received from a client. Returns one message per problem.
+ */
+export function validateRuleSchedule(schedule: unknown): string[] {
+  if (typeof schedule !== 'object' || schedule === null || Array.isArray(schedule)) {
+    return ['schedule must be an object'];
+  }
+
+  const { hours, weekdays, timezone, startDate, endDate } = schedule as RuleSchedule;
+  const errors: string[] = [];
+  const isTime = (value: unknown) => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+  const isDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+  if (hours !== undefined) {
+    if (!isTime(hours?.start) || !isTime(hours?.end)) {
+      errors.push('schedule.hours needs start and end times as HH:mm');
+    } else if (hours.start === hours.end) {
+      errors.push('schedule.hours start and end must differ');
+    }
+  }
+
+  if (weekdays !== undefined && (!Array.isArray(weekdays) || weekdays.some(day => !WEEKDAYS.includes(day)))) {
+    errors.push(`schedule.weekdays must be a list of ${WEEKDAYS.join(', ')}`);
+  }
+
+  if (timezone !== undefined) {
+    try {
+      getFormatter(String(timezone));
+    } catch {
+      errors.push(`schedule.timezone "${timezone}" is not a valid IANA timezone`);
+    }
+  }
+
+  if (startDate !== undefined && !isDate(startDate)) errors.push('schedule.startDate must be YYYY-MM-DD');
+  if (endDate !== undefined && !isDate(endDate)) errors.push('schedule.endDate must be YYYY-MM-DD');
+  if (isDate(startDate) && isDate(endDate) && startDate! > endDate!) {
+    errors.push('schedule.startDate must not be after schedule.endDate');
+  }
+
+  return errors;
+}
@@ -0,0 +1,118 @@
+import { AutomationRule, Campaign, META_ADS_CONFIG, RuleScope } from '@/types';
+
+/**
+ * Get the effective scope of a rule (single-campaign rules become a one-item list)
+ */
+export function getRuleScope(rule: Pick<AutomationRule, 'campaignId' | 'scope'>): RuleScope {
+  if (rule.scope) return rule.scope;
+  return rule.campaignId ? { campaignIds: [rule.campaignId] } : {};
+}
+
+/**
+ * Normalize an ad account ID so `act_123` and `123` compare equal
+ */
+export function normalizeAdAccountId(adAccountId: string): string {
+  return adAccountId.replace(/^act_/, '');
+}
+
+/**
+ * Turn a `*` wildcard name pattern into a case-insensitive regular expression
+ */
+function namePatternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`, 'i');
+}
+
+/**
+ * The ad account whose campaigns are candidates of a scope. Scopes without campaigns or
+ * an account (including the empty scope) cover the default account; without one
+ * configured, they cover no campaigns.
+ */
+export function getScopeAdAccountId(scope: RuleScope, defaultAdAccountId: string = META_ADS_CONFIG.adAccountId): string {
+  return scope.adAccountId || (scope.campaignIds?.length ? '' : defaultAdAccountId);
+}
+
+/**
+ * Check whether a campaign falls within a rule scope
+ */
+export function matchesRuleScope(
+  scope: RuleScope,
+  campaign: Campaign,
+  campaignTags: string[] = [],
+  defaultAdAccountId: string = META_ADS_CONFIG.adAccountId
+): boolean {
+  const adAccountId = getScopeAdAccountId(scope, defaultAdAccountId);
+  const isCandidate =
+    (scope.campaignIds?.includes(campaign.id) ?? false) ||
+    (!!adAccountId && !!campaign.account_id &&
+      normalizeAdAccountId(adAccountId) === normalizeAdAccountId(campaign.account_id));
+
+  if (!isCandidate) return false;
+
+  if (scope.namePattern && !namePatternToRegExp(scope.namePattern).test(campaign.name)) {
+    return false;
+  }
+
+  if (scope.objectives?.length && !scope.objectives.includes(campaign.objective)) {
+    return false;
+  }
+
+  if (scope.statuses?.length && !scope.statuses.includes(campaign.status)) {
+    return false;
+  }
+
+  if (scope.tags?.length && !scope.tags.some(tag => campaignTags.includes(tag))) {
+    return false;
+  }
+
+  return true;
+}
+
+const SCOPE_LIST_FIELDS = ['campaignIds', 'objectives', 'statuses', 'tags'] as const;
+
+/**
+ * Validate a rule scope received from a client. Returns one message per problem.
+ */
+export function validateRuleScope(scope: unknown): string[] {
+  if (typeof scope !== 'object' || scope === null || Array.isArray(scope)) {
+    return ['scope must be an object'];
+  }
+
+  const errors: string[] = [];
+  const candidate = scope as Record<string, unknown>;
+
+  for (const field of SCOPE_LIST_FIELDS) {
+    const value = candidate[field];
+    if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+      errors.push(`scope.${field} must be a list of strings`);
+    }
+  }
+
+  for (const field of ['adAccountId', 'namePattern'] as const) {
+    if (candidate[field] !== undefined && typeof candidate[field] !== 'string') {
+      errors.push(`scope.${field} must be a string`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Human readable summary of a rule scope
+ */
+export function describeRuleScope(scope: RuleScope): string {
+  const parts: string[] = [];
+
+  if (scope.campaignIds?.length) {
+    parts.push(scope.campaignIds.length === 1
+      ? `Campaign ${scope.campaignIds[0]}`
+      : `${scope.campaignIds.length} campaigns`);
+  }
+  if (scope.adAccountId) parts.push(`Account ${scope.adAccountId}`);
+  if (scope.namePattern) parts.push(`Name "${scope.namePattern}"`);
+  if (scope.objectives?.length) parts.push(`Objective ${scope.objectives.join('/')}`);
+  if (scope.statuses?.length) parts.push(`Status ${scope.statuses.join('/')}`);
+  if (scope.tags?.length) parts.push(`Tags ${scope.tags.join(', ')}`);
+
+  return parts.length > 0 ? parts.join(' · ') : 'All campaigns in the default account';
+}
@@ -0,0 +1,36 @@
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const MAX_SLUG_LENGTH = 64;
+
+/**
+ * Turn a rule name into a slug, e.g. "High Spend: ROAS < 1.5" -> "high-spend-roas-1-5"
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '') || 'rule';
+}
+
+/**
+ * Slugify a name, adding a numeric suffix if the slug is already taken
+ */
+export function createUniqueSlug(name: string, takenSlugs: Iterable<string>): string {
+  const taken = new Set(takenSlugs);
+  const base = slugify(name);
+
+  let slug = base;
+  for (let suffix = 2; taken.has(slug); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  return slug;
+}
+
+/**
+ * Check that a slug is lowercase words joined by single hyphens
+ */
+export function isValidSlug(slug: unknown): slug is string {
+  return typeof slug === 'string' && slug.length <= MAX_SLUG_LENGTH && SLUG_PATTERN.test(slug);
+}
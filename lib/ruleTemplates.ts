@@ -0,0 +1,178 @@
+import { CreateRuleForm, RuleTemplate, TemplateParameterValue } from '@/types';
+
+export type TemplateValues = Record<string, TemplateParameterValue>;
+
+// What a template produces; the target campaigns are chosen when it is instantiated
+export type TemplateRuleForm = Omit<CreateRuleForm, 'campaignId' | 'scope'>;
+
+interface RuleTemplateDefinition extends RuleTemplate {
+  build(values: TemplateValues): TemplateRuleForm;
+}
+
+const RULE_TEMPLATES: RuleTemplateDefinition[] = [
+  {
+    id: 'high-spend-protection',
+    name: 'High Spend Protection',
+    description: 'Pause campaigns that spend too much with low ROAS',
+    parameters: [
+      { key: 'maxSpend', label: 'Spend above', type: 'number', defaultValue: 100, min: 0, unit: '$' },
+      { key: 'minRoas', label: 'ROAS below', type: 'number', defaultValue: 1.5, min: 0 }
+    ],
+    build: values => ({
+      name: 'High Spend Protection',
+      description: `Pause campaigns that spend over $${values.maxSpend} with ROAS below ${values.minRoas}`,
+      conditions: [
+        { field: 'spend', operator: '>', value: Number(values.maxSpend) },
+        { field: 'roas', operator: '<', value: Number(values.minRoas) }
+      ],
+      actionType: 'PAUSE_CAMPAIGN'
+    })
+  },
+  {
+    id: 'low-ctr-alert',
+    name: 'Low CTR Alert',
+    description: 'Send a notification when CTR drops below a threshold',
+    parameters: [
+      { key: 'minCtr', label: 'CTR below', type: 'number', defaultValue: 1, min: 0, unit: '%' },
+      {
+        key: 'message',
+        label: 'Notification message',
+        type: 'string',
+        defaultValue: 'CTR of {{campaign.name}} dropped to {{conditions.1.actual | percent}} - investigate creative performance'
+      }
+    ],
+    build: values => ({
+      name: 'Low CTR Alert',
+      description: `Send notification when CTR drops below ${values.minCtr}%`,
+      conditions: [
+        { field: 'ctr', operator: '<', value: Number(values.minCtr) }
+      ],
+      actionType: 'SEND_NOTIFICATION',
+      actionParameters: { message: String(values.message) }
+    })
+  },
+  {
+    id: 'budget-scaling-for-winners',
+    name: 'Budget Scaling for Winners',
+    description: 'Increase the budget of high-performing campaigns',
+    parameters: [
+      { key: 'minRoas', label: 'ROAS at least', type: 'number', defaultValue: 3, min: 0 },
+      { key: 'minCtr', label: 'CTR above', type: 'number', defaultValue: 2, min: 0, unit: '%' },
+      { key: 'increasePercent', label: 'Increase budget by', type: 'number', defaultValue: 20, min: 0, unit: '%' },
+      { key: 'maxBudget', label: 'Up to', type: 'number', defaultValue: 500, min: 0, unit: '$' }
+    ],
+    build: values => ({
+      name: 'Budget Scaling for Winners',
+      description: `Increase the budget by ${values.increasePercent}% (up to $${values.maxBudget}) when ROAS is at least ${values.minRoas} and CTR is above ${values.minCtr}%`,
+      conditions: [
+        { field: 'roas', operator: '>=', value: Number(values.minRoas) },
+        { field: 'ctr', operator: '>', value: Number(values.minCtr) }
+      ],
+      actionType: 'ADJUST_BUDGET',
+      actionParameters: { changePercent: Number(values.increasePercent), maxBudget: Number(values.maxBudget) }
+    })
+  },
+  {
+    id: 'cost-control',
+    name: 'Cost Control',
+    description: 'Log when clicks or conversions become too expensive',
+    parameters: [
+      { key: 'maxCpc', label: 'CPC above', type: 'number', defaultValue: 2, min: 0, unit: '$' },
+      { key: 'maxCostPerAction', label: 'Cost per action above', type: 'number', defaultValue: 10, min: 0, unit: '$' }
+    ],
+    build: values => ({
+      name: 'Cost Control',
+      description: `Log when CPC exceeds $${values.maxCpc} or cost per action exceeds $${values.maxCostPerAction}`,
+      conditions: [
+        { field: 'cpc', operator: '>', value: Number(values.maxCpc) },
+        { field: 'costPerAction', operator: '>', value: Number(values.maxCostPerAction), logicalOperator: 'OR' }
+      ],
+      actionType: 'LOG_EVENT'
+    })
+  },
+  {
+    id: 'daily-cpa-guard',
+    name: 'Daily CPA Guard',
+    description: "Pause campaigns until midnight when today's cost per action is too high",
+    parameters: [
+      { key: 'maxCostPerAction', label: "Today's cost per action above", type: 'number', defaultValue: 25, min: 0, unit: '$' },
+      { key: 'minSpend', label: "Once today's spend is above", type: 'number', defaultValue: 20, min: 0, unit: '$' }
+    ],
+    build: values => ({
+      name: 'Daily CPA Guard',
+      description: `Pause until the next day when today's cost per action exceeds $${values.maxCostPerAction}`,
+      conditions: [
+        { field: 'costPerAction', operator: '>', value: Number(values.maxCostPerAction), window: { preset: 'today' } },
+        { field: 'spend', operator: '>', value: Number(values.minSpend), window: { preset: 'today' } }
+      ],
+      actionType: 'PAUSE_CAMPAIGN',
+      actionParameters: { resumeNextDay: true }
+    })
+  }
+];
+
+/**
+ * List the template catalog (without the builders, so it can be sent to clients)
+ */
+export function getRuleTemplates(): RuleTemplate[] {
+  return RULE_TEMPLATES.map(({ id, name, description, parameters }) => ({ id, name, description, parameters }));
+}
+
+/**
+ * Get a single template by ID
+ */
+export function getRuleTemplate(templateId: string): RuleTemplate | null {
+  return getRuleTemplates().find(template => template.id === templateId) || null;
+}
+
+/**
+ * Get a template's parameter defaults, e.g. to pre-fill a form
+ */
+export function getTemplateDefaults(template: RuleTemplate): TemplateValues {
+  return Object.fromEntries(template.parameters.map(parameter => [parameter.key, parameter.defaultValue]));
+}
+
+/**
+ * Validate parameter values received from a client. Missing values fall back to the defaults.
+ * Returns one message per problem.
+ */
+export function validateTemplateValues(template: RuleTemplate, values: unknown): string[] {
+  if (values === undefined) return [];
+  if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+    return ['values must be an object'];
+  }
+
+  const errors: string[] = [];
+  const keys = new Set(template.parameters.map(parameter => parameter.key));
+
+  for (const key of Object.keys(values)) {
+    if (!keys.has(key)) errors.push(`Unknown parameter "${key}" for template ${template.id}`);
+  }
+
+  for (const parameter of template.parameters) {
+    const value = (values as Record<string, unknown>)[parameter.key];
+    if (value === undefined) continue;
+
+    if (parameter.type === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${parameter.key} must be a number`);
+      } else if (parameter.min !== undefined && value < parameter.min) {
+        errors.push(`${parameter.key} must be at least ${parameter.min}`);
+      }
+    } else if (typeof value !== 'string' || !value.trim()) {
+      errors.push(`${parameter.key} must be a non-empty string`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Build a rule from a template and (already validated) parameter values
+ */
+export function instantiateRuleTemplate(templateId: string, values: TemplateValues = {}): TemplateRuleForm | null {
+  const template = RULE_TEMPLATES.find(t => t.id === templateId);
+  if (!template) return null;
+
+  return template.build({ ...getTemplateDefaults(template), ...values });
+}
@@ -0,0 +1,211 @@
+import { parse, stringify } from 'yaml';
+import {
+  AutomationRule,
+  ConditionGroupInput,
+  ConditionNodeInput,
+  FieldError,
+  PortableRule,
+  RuleImportChange,
+  RULES_DOCUMENT_VERSION,
+  RulesDocument,
+  RulesImportResult
+} from '@/types';
+import { AutomationEngine } from './automationEngine';
+import { isConditionGroup, normalizeConditionTree } from './conditionTree';
+import { diffRules } from './ruleVersions';
+import { normalizeHysteresis } from './ruleHysteresis';
+import { validateChannelsExist, validateRuleFields } from './ruleValidation';
+
+export type RulesDocumentFormat = 'json' | 'yaml';
+
+// Every field a rules document may set; anything else is rejected on import
+const PORTABLE_FIELDS: (keyof PortableRule)[] = [
+  'slug',
+  'name',
+  'description',
+  'campaignId',
+  'scope',
+  'conditions',
+  'action',
+  'actions',
+  'isActive',
+  'priority',
+  'stopProcessing',
+  'cooldownMinutes',
+  'maxTriggers',
+  'hysteresis',
+  'notificationChannels',
+  'dataRequirements',
+  'schedule'
+];
+
+/**
+ * Drop generated condition IDs so exported documents stay stable across environments
+ */
+function stripConditionIds(group: ConditionGroupInput): ConditionGroupInput {
+  return {
+    type: 'group',
+    operator: group.operator,
+    conditions: group.conditions.map((node): ConditionNodeInput => {
+      if (isConditionGroup(node)) return stripConditionIds(node);
+      const condition = { ...node };
+      delete condition.id;
+      return condition;
+    })
+  };
+}
+
+/**
+ * Reduce a rule to the configuration that belongs in a rules document
+ */
+export function toPortableRule(rule: AutomationRule): PortableRule {
+  const portable: Record<string, unknown> = {};
+
+  for (const field of PORTABLE_FIELDS) {
+    if (rule[field] !== undefined) portable[field] = rule[field];
+  }
+
+  if (rule.hysteresis?.recovery) {
+    portable.hysteresis = { ...rule.hysteresis, recovery: stripConditionIds(rule.hysteresis.recovery) };
+  }
+
+  return { ...portable, conditions: stripConditionIds(rule.conditions) } as PortableRule;
+}
+
+/**
+ * Serialize rules as a versioned rules document
+ */
+export function exportRulesDocument(rules: AutomationRule[], format: RulesDocumentFormat): string {
+  const document: RulesDocument = {
+    version: RULES_DOCUMENT_VERSION,
+    exportedAt: new Date().toISOString(),
+    rules: rules.map(toPortableRule)
+  };
+
+  return format === 'yaml' ? stringify(document) : JSON.stringify(document, null, 2);
+}
+
+/**
+ * Parse a rules document. YAML is a superset of JSON, so both formats are accepted.
+ * Throws on syntax errors.
+ */
+export function parseRulesDocument(text: string): unknown {
+  return parse(text);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate one rule of a rules document; `field` is its path in the document
+ */
+function validatePortableRule(rule: unknown, field: string, channelIds?: string[]): FieldError[] {
+  if (!isObject(rule)) return [{ field, message: 'must be an object' }];
+
+  const errors: FieldError[] = Object.keys(rule)
+    .filter(key => !PORTABLE_FIELDS.includes(key as keyof PortableRule))
+    .map(key => ({ field: `${field}.${key}`, message: 'is not a rule field' }));
+
+  for (const required of ['slug', 'name', 'isActive', 'conditions', 'action'] as const) {
+    if (rule[required] === undefined) errors.push({ field: `${field}.${required}`, message: 'is required' });
+  }
+  if (rule.campaignId === undefined && rule.scope === undefined) {
+    errors.push({ field: `${field}.campaignId`, message: 'or scope is required' });
+  }
+  if (Array.isArray(rule.conditions)) {
+    errors.push({ field: `${field}.conditions`, message: 'must be a condition group' });
+  }
+
+  if (channelIds) {
+    errors.push(...validateChannelsExist(rule.notificationChannels, channelIds, `${field}.notificationChannels`));
+  }
+
+  return [...errors, ...validateRuleFields(rule, `${field}.`)];
+}
+
+/**
+ * Validate a parsed rules document. Errors are keyed by their path in the document.
+ * With `channelIds`, rules may only use those notification channels.
+ */
+export function validateRulesDocument(document: unknown, channelIds?: string[]): FieldError[] {
+  if (!isObject(document)) return [{ field: 'document', message: 'must be an object' }];
+  if (document.version !== RULES_DOCUMENT_VERSION) {
+    return [{
+      field: 'version',
+      message: `${JSON.stringify(document.version)} is not supported (expected ${RULES_DOCUMENT_VERSION})`
+    }];
+  }
+  if (!Array.isArray(document.rules)) return [{ field: 'rules', message: 'must be a list' }];
+
+  const errors: FieldError[] = [];
+  const seenSlugs = new Set<string>();
+
+  document.rules.forEach((rule: unknown, index) => {
+    const field = `rules[${index}]`;
+    errors.push(...validatePortableRule(rule, field, channelIds));
+
+    if (isObject(rule) && typeof rule.slug === 'string') {
+      if (seenSlugs.has(rule.slug)) errors.push({ field: `${field}.slug`, message: `duplicates "${rule.slug}"` });
+      seenSlugs.add(rule.slug);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Import a validated rules document, matching rules by slug. Rules missing from the
+ * document are only removed when `prune` is set. With `dryRun`, nothing is saved and
+ * the result shows what the import would do.
+ */
+export function importRulesDocument(
+  document: RulesDocument,
+  options: { dryRun?: boolean; prune?: boolean; changedBy?: string } = {}
+): RulesImportResult {
+  const { dryRun = false, prune = false, changedBy = 'import' } = options;
+  const result: RulesImportResult = { dryRun, created: [], updated: [], unchanged: [], removed: [] };
+
+  for (const portable of document.rules) {
+    const existing = AutomationEngine.getRuleBySlug(portable.slug);
+
+    if (!existing) {
+      const entry: RuleImportChange = { slug: portable.slug, name: portable.name };
+      if (!dryRun) entry.ruleId = AutomationEngine.addRule(portable, changedBy).id;
+      result.created.push(entry);
+      continue;
+    }
+
+    // Fields left out of the document are cleared
+    const updates = Object.fromEntries(PORTABLE_FIELDS.map(field => [field, portable[field]])) as PortableRule;
+    const changes = diffRules(existing, {
+      ...existing,
+      ...updates,
+      conditions: normalizeConditionTree(portable.conditions),
+      hysteresis: normalizeHysteresis(portable.hysteresis)
+    });
+    const entry: RuleImportChange = { slug: portable.slug, name: portable.name, ruleId: existing.id };
+
+    if (changes.length === 0) {
+      result.unchanged.push(entry);
+      continue;
+    }
+
+    if (!dryRun) AutomationEngine.updateRule(existing.id, updates, changedBy);
+    result.updated.push({ ...entry, changes });
+  }
+
+  if (prune) {
+    const slugs = new Set(document.rules.map(rule => rule.slug));
+
+    for (const rule of AutomationEngine.getRules()) {
+      if (slugs.has(rule.slug)) continue;
+      if (!dryRun) AutomationEngine.deleteRule(rule.id);
+      result.removed.push({ slug: rule.slug, name: rule.name, ruleId: rule.id });
+    }
+  }
+
+  console.log(`📥 ${dryRun ? 'Dry-run import' : 'Imported'} rules: ${result.created.length} created, ` +
+    `${result.updated.length} updated, ${result.unchanged.length} unchanged, ${result.removed.length} removed`);
+
+  return result;
+}
@@ -0,0 +1,483 @@
+import {
+  ACTION_FAILURE_POLICIES,
+  ACTION_PARAMETERS,
+  ACTION_TYPES,
+  ActionFailurePolicy,
+  ActionType,
+  AutomationRule,
+  AVAILABLE_METRICS,
+  BUDGET_CHANGE_MODES,
+  COMPARISON_OPERATORS,
+  ComparisonOperator,
+  CONFIDENCE_LEVELS,
+  ConfidenceLevel,
+  CreateRuleForm,
+  FieldError,
+  INSIGHTS_DATE_PRESETS
+} from '@/types';
+import { validateMetricExpression } from './metricExpression';
+import { validateMessageTemplate } from './messageTemplate';
+import { validateRuleScope } from './ruleScopes';
+import { validateDataRequirements } from './dataGuards';
+import { validateRuleSchedule } from './ruleSchedule';
+import { isValidSlug } from './ruleSlugs';
+
+type FieldValidator = (value: unknown, field: string) => FieldError[];
+
+// Rule fields a client may change with an update
+export const RULE_UPDATE_FIELDS: (keyof AutomationRule)[] = [
+  'name',
+  'description',
+  'campaignId',
+  'scope',
+  'conditions',
+  'action',
+  'actions',
+  'isActive',
+  'priority',
+  'stopProcessing',
+  'cooldownMinutes',
+  'maxTriggers',
+  'hysteresis',
+  'notificationChannels',
+  'dataRequirements',
+  'schedule'
+];
+
+// Fields every rule has, which updates cannot clear with null
+const REQUIRED_RULE_FIELDS: (keyof AutomationRule)[] = ['name', 'conditions', 'action', 'isActive'];
+
+// Fields managed by the engine that clients can never set
+const READ_ONLY_FIELDS: (keyof AutomationRule)[] = ['id', 'slug', 'version', 'createdAt', 'updatedAt', 'lastTriggered'];
+
+const RULE_FORM_FIELDS: (keyof CreateRuleForm)[] = [
+  'name',
+  'slug',
+  'description',
+  'campaignId',
+  'scope',
+  'conditions',
+  'actionType',
+  'actionParameters',
+  'actions',
+  'priority',
+  'stopProcessing',
+  'cooldownMinutes',
+  'maxTriggers',
+  'hysteresis',
+  'notificationChannels',
+  'dataRequirements',
+  'schedule'
+];
+
+const RATE_METRICS: string[] = AVAILABLE_METRICS.filter(metric => metric.type === 'percentage').map(metric => metric.key);
+const WINDOW_PRESETS: string[] = INSIGHTS_DATE_PRESETS.map(preset => preset.key);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const fieldError = (field: string, message: string): FieldError => ({ field, message });
+
+/**
+ * Turn messages from the older validators ("schedule.hours start and end must differ")
+ * into field errors, using the leading path as the field
+ */
+function fromMessages(root: string, messages: string[]): FieldError[] {
+  return messages.map(message => {
+    const match = message.match(/^([\w.[\]]+) (.+)$/);
+    return match && match[1].startsWith(root)
+      ? fieldError(match[1], match[2])
+      : fieldError(root, message);
+  });
+}
+
+/**
+ * Summarize field errors in a single message, e.g. for `ApiResponse.error`
+ */
+export function describeFieldErrors(errors: FieldError[]): string {
+  return errors.map(error => error.field ? `${error.field} ${error.message}` : error.message).join('; ');
+}
+
+function validateWindow(window: unknown, field: string): FieldError[] {
+  if (!isObject(window) || !WINDOW_PRESETS.includes(window.preset as string)) {
+    return [fieldError(`${field}.preset`, `must be one of ${WINDOW_PRESETS.join(', ')}`)];
+  }
+  if (window.preset !== 'custom') return [];
+
+  if (!isDate(window.since) || !isDate(window.until)) {
+    return [fieldError(field, 'custom windows need since and until dates as YYYY-MM-DD')];
+  }
+  if ((window.since as string) > (window.until as string)) {
+    return [fieldError(field, 'since must not be after until')];
+  }
+  return [];
+}
+
+function validateCondition(condition: unknown, field: string): FieldError[] {
+  if (!isObject(condition)) return [fieldError(field, 'must be a condition or a condition group')];
+
+  const errors: FieldError[] = [];
+
+  const metricError = validateMetricExpression(typeof condition.field === 'string' ? condition.field : '');
+  if (metricError) errors.push(fieldError(`${field}.field`, metricError));
+
+  if (!COMPARISON_OPERATORS.includes(condition.operator as ComparisonOperator)) {
+    errors.push(fieldError(`${field}.operator`, `must be one of ${COMPARISON_OPERATORS.join(' ')}`));
+  }
+
+  if (condition.valueExpression !== undefined) {
+    const valueError = validateMetricExpression(typeof condition.valueExpression === 'string' ? condition.valueExpression : '');
+    if (valueError) errors.push(fieldError(`${field}.valueExpression`, valueError));
+  } else if (typeof condition.value !== 'number' || !Number.isFinite(condition.value)) {
+    errors.push(fieldError(`${field}.value`, 'must be a number'));
+  }
+
+  if (condition.window !== undefined) errors.push(...validateWindow(condition.window, `${field}.window`));
+
+  if (condition.change !== undefined) {
+    if (!isObject(condition.change) || !['absolute', 'percent'].includes(condition.change.mode as string)) {
+      errors.push(fieldError(`${field}.change.mode`, 'must be absolute or percent'));
+    } else if (condition.change.baseline !== 'previous_period') {
+      errors.push(...validateWindow(condition.change.baseline, `${field}.change.baseline`));
+    }
+  }
+
+  if (condition.confidence !== undefined) {
+    if (!RATE_METRICS.includes(condition.field as string) || condition.change ||
+        ['=', '!='].includes(condition.operator as string)) {
+      errors.push(fieldError(`${field}.confidence`,
+        `needs a rate metric (${RATE_METRICS.join(', ')}) compared with <, <=, > or >= and no trend`));
+    } else if (!CONFIDENCE_LEVELS.includes(condition.confidence as ConfidenceLevel)) {
+      errors.push(fieldError(`${field}.confidence`, `must be one of ${CONFIDENCE_LEVELS.join(', ')}`));
+    }
+  }
+
+  return errors;
+}
+
+function validateConditionGroup(group: Record<string, unknown>, field: string): FieldError[] {
+  const errors: FieldError[] = [];
+
+  if (group.operator !== 'AND' && group.operator !== 'OR') {
+    errors.push(fieldError(`${field}.operator`, 'must be AND or OR'));
+  }
+  if (!Array.isArray(group.conditions) || group.conditions.length === 0) {
+    return [...errors, fieldError(`${field}.conditions`, 'must contain at least one condition')];
+  }
+
+  group.conditions.forEach((node: unknown, index) => {
+    const nodeField = `${field}.conditions[${index}]`;
+    errors.push(...(isObject(node) && node.type === 'group'
+      ? validateConditionGroup(node, nodeField)
+      : validateCondition(node, nodeField)));
+  });
+
+  return errors;
+}
+
+/**
+ * Validate a condition tree (or the legacy flat condition list): metrics against the
+ * metric registry, operators, values, windows, trends and confidence checks
+ */
+export function validateConditions(conditions: unknown, field: string = 'conditions'): FieldError[] {
+  if (Array.isArray(conditions)) {
+    if (conditions.length === 0) return [fieldError(field, 'must contain at least one condition')];
+
+    return conditions.flatMap((condition: unknown, index) => {
+      const errors = validateCondition(condition, `${field}[${index}]`);
+      if (isObject(condition) && condition.logicalOperator !== undefined &&
+          condition.logicalOperator !== 'AND' && condition.logicalOperator !== 'OR') {
+        errors.push(fieldError(`${field}[${index}].logicalOperator`, 'must be AND or OR'));
+      }
+      return errors;
+    });
+  }
+
+  if (!isObject(conditions) || conditions.type !== 'group') {
+    return [fieldError(field, 'must be a condition group or a list of conditions')];
+  }
+  return validateConditionGroup(conditions, field);
+}
+
+/**
+ * Validate action parameters against what the action type accepts
+ */
+export function validateActionParameters(type: ActionType, parameters: unknown, field: string): FieldError[] {
+  if (parameters !== undefined && !isObject(parameters)) return [fieldError(field, 'must be an object')];
+
+  const specs = ACTION_PARAMETERS[type];
+  const values = (parameters || {}) as Record<string, unknown>;
+  const errors: FieldError[] = Object.keys(values)
+    .filter(key => !specs[key])
+    .map(key => fieldError(`${field}.${key}`, `is not a parameter of ${type}`));
+
+  for (const [key, spec] of Object.entries(specs)) {
+    const value = values[key];
+
+    if (value === undefined) {
+      if (spec.required) errors.push(fieldError(`${field}.${key}`, `is required for ${type}`));
+    } else if (typeof value !== spec.type || (spec.type === 'number' && !Number.isFinite(value))) {
+      errors.push(fieldError(`${field}.${key}`, `must be a ${spec.type}`));
+    } else if (spec.min !== undefined && (value as number) < spec.min) {
+      errors.push(fieldError(`${field}.${key}`, `must be at least ${spec.min}`));
+    }
+  }
+
+  if (type === 'ADJUST_BUDGET') errors.push(...validateBudgetParameters(values, field));
+  if (type === 'PAUSE_CAMPAIGN' && values.resumeAfterMinutes !== undefined && values.resumeNextDay) {
+    errors.push(fieldError(field, 'accepts resumeAfterMinutes or resumeNextDay, not both'));
+  }
+  if (type === 'SEND_NOTIFICATION' && typeof values.message === 'string') {
+    errors.push(...validateMessageTemplate(values.message).map(message => fieldError(`${field}.message`, message)));
+  }
+
+  return errors;
+}
+
+function validateBudgetParameters(values: Record<string, unknown>, field: string): FieldError[] {
+  const errors: FieldError[] = [];
+
+  const modes = BUDGET_CHANGE_MODES.filter(mode => values[mode] !== undefined);
+  if (modes.length !== 1) {
+    errors.push(fieldError(field, `needs exactly one of ${BUDGET_CHANGE_MODES.join(', ')}`));
+  }
+
+  const { minBudget, maxBudget } = values;
+  if (typeof minBudget === 'number' && typeof maxBudget === 'number' && minBudget > maxBudget) {
+    errors.push(fieldError(`${field}.minBudget`, 'must not be above maxBudget'));
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a `{ type, parameters }` action
+ */
+export function validateAction(action: unknown, field: string = 'action'): FieldError[] {
+  if (!isObject(action) || !ACTION_TYPES.includes(action.type as ActionType)) {
+    return [fieldError(`${field}.type`, `must be one of ${ACTION_TYPES.join(', ')}`)];
+  }
+  return validateActionParameters(action.type as ActionType, action.parameters, `${field}.parameters`);
+}
+
+/**
+ * Validate an action sequence, including each step's failure policy and compensation
+ */
+export function validateActionSteps(steps: unknown, field: string = 'actions'): FieldError[] {
+  if (!Array.isArray(steps) || steps.length === 0) return [fieldError(field, 'must be a non-empty list')];
+
+  return steps.flatMap((step: unknown, index) => {
+    const stepField = `${field}[${index}]`;
+    const errors = validateAction(step, stepField);
+    if (!isObject(step)) return errors;
+
+    if (step.onFailure !== undefined && !ACTION_FAILURE_POLICIES.includes(step.onFailure as ActionFailurePolicy)) {
+      errors.push(fieldError(`${stepField}.onFailure`, `must be one of ${ACTION_FAILURE_POLICIES.join(', ')}`));
+    }
+    if (step.compensation !== undefined) errors.push(...validateAction(step.compensation, `${stepField}.compensation`));
+
+    return errors;
+  });
+}
+
+function validateHysteresis(hysteresis: unknown, field: string): FieldError[] {
+  if (!isObject(hysteresis)) return [fieldError(field, 'must be an object')];
+
+  const errors: FieldError[] = Object.keys(hysteresis)
+    .filter(key => !['consecutiveEvaluations', 'minDurationMinutes', 'recovery'].includes(key))
+    .map(key => fieldError(`${field}.${key}`, 'is not a hysteresis setting'));
+
+  const { consecutiveEvaluations, minDurationMinutes, recovery } = hysteresis;
+  if (consecutiveEvaluations !== undefined &&
+      !(Number.isInteger(consecutiveEvaluations) && (consecutiveEvaluations as number) >= 1)) {
+    errors.push(fieldError(`${field}.consecutiveEvaluations`, 'must be a positive integer'));
+  }
+  if (minDurationMinutes !== undefined && !(typeof minDurationMinutes === 'number' && minDurationMinutes > 0)) {
+    errors.push(fieldError(`${field}.minDurationMinutes`, 'must be a positive number'));
+  }
+  if (recovery !== undefined) errors.push(...validateConditions(recovery, `${field}.recovery`));
+
+  return errors;
+}
+
+function validateNotificationChannelIds(channels: unknown, field: string): FieldError[] {
+  if (!Array.isArray(channels)) return [fieldError(field, 'must be a list of channel IDs')];
+
+  return channels.flatMap((channel, index) => {
+    if (!isValidSlug(channel)) return [fieldError(`${field}[${index}]`, 'must be a channel ID')];
+    return channels.indexOf(channel) < index ? [fieldError(`${field}[${index}]`, `duplicates "${channel}"`)] : [];
+  });
+}
+
+/**
+ * Check that the notification channels a rule refers to exist. Only rules being saved
+ * are checked; drafts may name channels that are not set up yet.
+ */
+export function validateChannelsExist(channels: unknown, channelIds: string[], field = 'notificationChannels'): FieldError[] {
+  if (!Array.isArray(channels)) return [];
+
+  return channels.flatMap((channel, index) => isValidSlug(channel) && !channelIds.includes(channel)
+    ? [fieldError(`${field}[${index}]`, `is not a configured channel ("${channel}")`)]
+    : []);
+}
+
+const FIELD_VALIDATORS: Record<string, FieldValidator> = {
+  name: (value, field) =>
+    typeof value === 'string' && value.trim() ? [] : [fieldError(field, 'must be a non-empty string')],
+  slug: (value, field) =>
+    isValidSlug(value) ? [] : [fieldError(field, 'must be lowercase letters and digits joined by hyphens')],
+  description: (value, field) => typeof value === 'string' ? [] : [fieldError(field, 'must be a string')],
+  campaignId: (value, field) =>
+    typeof value === 'string' && value ? [] : [fieldError(field, 'must be a non-empty string')],
+  scope: value => fromMessages('scope', validateRuleScope(value)),
+  conditions: validateConditions,
+  action: validateAction,
+  actions: validateActionSteps,
+  actionType: (value, field) =>
+    ACTION_TYPES.includes(value as ActionType) ? [] : [fieldError(field, `must be one of ${ACTION_TYPES.join(', ')}`)],
+  actionParameters: (value, field) => isObject(value) ? [] : [fieldError(field, 'must be an object')],
+  isActive: (value, field) => typeof value === 'boolean' ? [] : [fieldError(field, 'must be true or false')],
+  priority: (value, field) =>
+    typeof value === 'number' && Number.isFinite(value) ? [] : [fieldError(field, 'must be a number')],
+  stopProcessing: (value, field) => typeof value === 'boolean' ? [] : [fieldError(field, 'must be true or false')],
+  cooldownMinutes: (value, field) =>
+    typeof value === 'number' && value >= 0 ? [] : [fieldError(field, 'must be a non-negative number')],
+  maxTriggers: (value, field) =>
+    isObject(value) && Number.isInteger(value.count) && (value.count as number) >= 1 &&
+    ['day', 'week'].includes(value.period as string)
+      ? []
+      : [fieldError(field, 'needs a positive integer count and a period of "day" or "week"')],
+  hysteresis: validateHysteresis,
+  notificationChannels: validateNotificationChannelIds,
+  dataRequirements: value => fromMessages('dataRequirements', validateDataRequirements(value)),
+  schedule: value => fromMessages('schedule', validateRuleSchedule(value))
+};
+
+// Number of conditions in a condition group or flat list, in evaluation order
+function countConditions(conditions: unknown): number {
+  const nodes = Array.isArray(conditions) ? conditions : isObject(conditions) ? conditions.conditions : [];
+  if (!Array.isArray(nodes)) return 0;
+  return nodes.reduce((count: number, node) =>
+    count + (isObject(node) && node.type === 'group' ? countConditions(node) : 1), 0);
+}
+
+/**
+ * Check that notification message templates only refer to conditions the rule has.
+ * Other template errors are reported with the action parameters.
+ */
+function validateTemplateConditions(values: Record<string, unknown>, prefix: string): FieldError[] {
+  const conditionCount = countConditions(values.conditions);
+  const messages: [string, unknown][] = [
+    ['actionParameters', values.actionParameters],
+    ['action.parameters', isObject(values.action) ? values.action.parameters : undefined]
+  ];
+  if (Array.isArray(values.actions)) {
+    values.actions.forEach((step, index) => {
+      if (!isObject(step)) return;
+      messages.push([`actions[${index}].parameters`, step.parameters]);
+      if (isObject(step.compensation)) messages.push([`actions[${index}].compensation.parameters`, step.compensation.parameters]);
+    });
+  }
+
+  return messages.flatMap(([field, parameters]) => {
+    if (!isObject(parameters) || typeof parameters.message !== 'string') return [];
+    const otherErrors = validateMessageTemplate(parameters.message);
+    return validateMessageTemplate(parameters.message, { conditionCount })
+      .filter(message => !otherErrors.includes(message))
+      .map(message => fieldError(`${prefix}${field}.message`, message));
+  });
+}
+
+/**
+ * Validate every known rule field present in `values`. Fields set to undefined are skipped.
+ */
+export function validateRuleFields(values: Record<string, unknown>, prefix: string = ''): FieldError[] {
+  const errors = Object.entries(values).flatMap(([key, value]) =>
+    value === undefined || !FIELD_VALIDATORS[key] ? [] : FIELD_VALIDATORS[key](value, `${prefix}${key}`)
+  );
+
+  if (values.conditions !== undefined && values.conditions !== null) {
+    errors.push(...validateTemplateConditions(values, prefix));
+  }
+  return errors;
+}
+
+/**
+ * Validate a rule form (`CreateRuleForm`). Drafts (dry runs, backtests, parsed DSL)
+ * need neither a name nor a target. With `channelIds` (the configured notification
+ * channels), the rule's channels must be among them.
+ */
+export function validateRuleForm(form: unknown, options: { draft?: boolean; channelIds?: string[] } = {}): FieldError[] {
+  if (!isObject(form)) return [fieldError('rule', 'must be an object')];
+
+  const errors: FieldError[] = Object.keys(form)
+    .filter(key => !RULE_FORM_FIELDS.includes(key as keyof CreateRuleForm))
+    .map(key => fieldError(key, 'is not a rule field'));
+
+  if (!options.draft) {
+    if (form.name === undefined) errors.push(fieldError('name', 'is required'));
+    if (form.campaignId === undefined && form.scope === undefined) {
+      errors.push(fieldError('campaignId', 'or scope is required'));
+    }
+  }
+  if (form.conditions === undefined) errors.push(fieldError('conditions', 'is required'));
+  if (form.actionType === undefined && form.actions === undefined) {
+    errors.push(fieldError('actionType', 'or actions is required'));
+  }
+
+  errors.push(...validateRuleFields(form));
+  if (options.channelIds) errors.push(...validateChannelsExist(form.notificationChannels, options.channelIds));
+
+  // Parameters can only be checked once the action type is known
+  if (ACTION_TYPES.includes(form.actionType as ActionType) && isObject(form.actionParameters ?? {})) {
+    errors.push(...validateActionParameters(form.actionType as ActionType, form.actionParameters, 'actionParameters'));
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the changes of a rule update. Only `RULE_UPDATE_FIELDS` may be changed;
+ * optional fields set to null are cleared (e.g. `actions: null` turns an action
+ * sequence back into a single action). With the `existing` rule, the update must
+ * also leave the rule with a target, and `action` can only change along with `actions`.
+ * With `channelIds`, the rule's notification channels must be among them.
+ */
+export function validateRuleUpdate(updates: unknown, existing?: AutomationRule, channelIds?: string[]): FieldError[] {
+  if (!isObject(updates)) return [fieldError('rule', 'must be an object')];
+
+  const errors: FieldError[] = Object.keys(updates)
+    .filter(key => !RULE_UPDATE_FIELDS.includes(key as keyof AutomationRule))
+    .map(key => fieldError(key, READ_ONLY_FIELDS.includes(key as keyof AutomationRule)
+      ? 'cannot be changed'
+      : 'is not a rule field'));
+
+  const values = Object.fromEntries(Object.entries(updates).filter(([key, value]) =>
+    value !== null || REQUIRED_RULE_FIELDS.includes(key as keyof AutomationRule)
+  ));
+  errors.push(...validateRuleFields(values));
+  if (channelIds) errors.push(...validateChannelsExist(updates.notificationChannels, channelIds));
+
+  if (existing) {
+    const resulting = <K extends keyof AutomationRule>(field: K) =>
+      field in updates ? updates[field] : existing[field];
+
+    // Without a campaign or a scope, the rule would match every campaign
+    if ((resulting('campaignId') ?? null) === null && (resulting('scope') ?? null) === null) {
+      errors.push(fieldError('campaignId', 'or scope is required'));
+    }
+
+    // `action` mirrors the first step of an action sequence, so it cannot differ from it
+    const action = updates.action;
+    const steps = resulting('actions');
+    if (isObject(action) && Array.isArray(steps) && steps.length > 0 && isObject(steps[0]) &&
+        (action.type !== steps[0].type ||
+          JSON.stringify(action.parameters ?? {}) !== JSON.stringify(steps[0].parameters ?? {}))) {
+      errors.push(fieldError('action', 'cannot differ from the first of actions; update actions instead'));
+    }
+  }
+
+  return errors;
+}
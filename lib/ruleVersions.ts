@@ -0,0 +1,59 @@
+import { AutomationRule, RuleFieldChange } from '@/types';
+
+// Bookkeeping fields that change without changing what the rule does
+const UNVERSIONED_FIELDS: (keyof AutomationRule)[] = ['id', 'version', 'createdAt', 'updatedAt', 'lastTriggered'];
+
+// Header API clients use to say who made a change
+export const CHANGED_BY_HEADER = 'x-changed-by';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function diffValues(before: unknown, after: unknown, path: string, changes: RuleFieldChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      // Condition node IDs are regenerated whenever conditions are re-submitted
+      if (path && key === 'id') continue;
+      diffValues(before[key], after[key], path ? `${path}.${key}` : key, changes);
+    }
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    before.forEach((item, index) => diffValues(item, after[index], `${path}[${index}]`, changes));
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, before, after });
+  }
+}
+
+/**
+ * List the configuration differences between two versions of a rule, one entry per changed leaf.
+ * Arrays whose length changed are reported as a whole.
+ */
+export function diffRules(before: AutomationRule | null, after: AutomationRule): RuleFieldChange[] {
+  const changes: RuleFieldChange[] = [];
+  diffValues(stripUnversionedFields(before || {}), stripUnversionedFields(after), '', changes);
+  return changes;
+}
+
+/**
+ * Drop bookkeeping fields so only the rule's configuration remains
+ */
+export function stripUnversionedFields<T extends Partial<AutomationRule>>(rule: T): Omit<T, typeof UNVERSIONED_FIELDS[number]> {
+  const config = { ...rule };
+  for (const field of UNVERSIONED_FIELDS) {
+    delete config[field];
+  }
+  return config;
+}
+
+/**
+ * Who made a change, as reported by the client (defaults to "api")
+ */
+export function getChangedBy(headers: Headers): string {
+  return headers.get(CHANGED_BY_HEADER)?.trim().slice(0, 100) || 'api';
+}
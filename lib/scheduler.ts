@@ -1,5 +1,3 @@
-import { META_ADS_CONFIG } from '@/types';
-
 class AutomationScheduler {
   private intervalId: NodeJS.Timeout | null = null;
   private isRunning = false;
@@ -65,16 +63,13 @@ class AutomationScheduler {
     try {
       console.log('🔄 Scheduler executing automation...');
       
-      // In a real application, you would fetch all active campaign IDs
-      // For this demo, we'll use the sample campaign ID
-      const campaignIds = [META_ADS_CONFIG.sampleCampaignId];
-      
+      // No campaign IDs: the server resolves every active rule's scope to its campaigns
       const response = await fetch('/api/automation/execute', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ campaignIds }),
+        body: JSON.stringify({}),
       });
 
       if (response.ok) {
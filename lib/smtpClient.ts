@@ -0,0 +1,223 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+export interface SmtpConnectionOptions {
+  host: string;
+  port: number;
+  secure?: boolean; // Implicit TLS; otherwise STARTTLS is used when the server offers it
+  username?: string;
+  password?: string;
+  allowInsecureAuth?: boolean; // Authenticate without TLS; credentials are then sent in cleartext
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Line-based reader over an SMTP socket. Replies are queued as they arrive so a reply
+ * that comes in before it is awaited is not lost.
+ */
+class SmtpConnection {
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket, private readonly timeoutMs: number) {
+    this.attach();
+  }
+
+  private attach(): void {
+    this.socket.setEncoding('utf-8');
+    this.socket.setTimeout(this.timeoutMs);
+    this.socket.on('data', (chunk: string) => this.receive(chunk));
+    this.socket.on('timeout', () => this.fail(new Error(`SMTP server did not respond within ${this.timeoutMs}ms`)));
+    this.socket.on('error', error => this.fail(error));
+    this.socket.on('close', () => this.fail(new Error('SMTP connection closed unexpectedly')));
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.replyLines.push(line.slice(4));
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line[3] !== '-') {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.replyLines });
+        this.replyLines = [];
+      }
+    }
+
+    this.flush();
+  }
+
+  private flush(): void {
+    if (!this.waiting) return;
+
+    const reply = this.replies.shift();
+    if (reply) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else if (this.failure) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.failure);
+    }
+  }
+
+  private fail(error: Error): void {
+    if (!this.failure) this.failure = error;
+    this.flush();
+  }
+
+  /**
+   * Wait for the next reply and check its code
+   */
+  async expect(codes: number[], context: string): Promise<SmtpReply> {
+    const reply = await new Promise<SmtpReply>((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${context} failed: ${reply.code} ${reply.lines.join(' ')}`.trim());
+    }
+    return reply;
+  }
+
+  async command(line: string, codes: number[], context: string = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes, context);
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS
+   */
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners();
+    const secureSocket = tls.connect({ socket: this.socket, servername: host });
+
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve);
+      secureSocket.once('error', reject);
+    });
+
+    this.socket = secureSocket;
+    this.buffer = '';
+    this.attach();
+  }
+
+  close(): void {
+    this.socket.removeAllListeners();
+    this.socket.on('error', () => {});
+    this.socket.end();
+  }
+}
+
+function connect(options: SmtpConnectionOptions, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port });
+
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error(`Could not connect to SMTP server ${options.host}:${options.port} within ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+      clearTimeout(timer);
+      socket.removeAllListeners('error');
+      resolve(socket);
+    });
+    socket.once('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+// Non-ASCII subjects are sent as RFC 2047 encoded words
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`;
+
+/**
+ * Build the message as sent after DATA: CRLF line endings, lines starting with a dot
+ * doubled, terminated by a lone dot
+ */
+function formatMessage(message: MailMessage): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit'
+  ];
+  const body = message.text
+    .split(/\r?\n/)
+    .map(line => (line.startsWith('.') ? `.${line}` : line));
+
+  return [...headers, '', ...body, '.'].join('\r\n');
+}
+
+// Envelope addresses take only the address part of "Name <address>"
+const envelopeAddress = (address: string) => address.match(/<([^>]+)>/)?.[1] || address.trim();
+
+/**
+ * Send a plain-text email over SMTP. Throws with the server's reply when any step is refused.
+ */
+export async function sendMail(options: SmtpConnectionOptions, message: MailMessage): Promise<void> {
+  const timeoutMs = options.timeoutMs ?? 15000;
+  const connection = new SmtpConnection(await connect(options, timeoutMs), timeoutMs);
+  const hostname = os.hostname() || 'localhost';
+
+  try {
+    await connection.expect([220], 'greeting');
+    const ehlo = await connection.command(`EHLO ${hostname}`, [250], 'EHLO');
+    let encrypted = options.secure === true;
+
+    if (!encrypted && ehlo.lines.some(line => line.toUpperCase().startsWith('STARTTLS'))) {
+      await connection.command('STARTTLS', [220]);
+      await connection.upgrade(options.host);
+      await connection.command(`EHLO ${hostname}`, [250], 'EHLO');
+      encrypted = true;
+    }
+
+    if (options.username) {
+      if (!encrypted && !options.allowInsecureAuth) {
+        throw new Error(`SMTP server ${options.host}:${options.port} offers no TLS; refusing to send credentials in cleartext (set allowInsecureAuth to allow it)`);
+      }
+      const credentials = Buffer.from(`\0${options.username}\0${options.password || ''}`, 'utf-8').toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235], 'authentication');
+    }
+
+    await connection.command(`MAIL FROM:<${envelopeAddress(message.from)}>`, [250], 'MAIL FROM');
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${envelopeAddress(recipient)}>`, [250, 251], `RCPT TO ${recipient}`);
+    }
+    await connection.command('DATA', [354]);
+    await connection.command(formatMessage(message), [250], 'message delivery');
+    await connection.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,75 @@
+import { AutomationRule, RuleCampaignState, TriggerCap } from '@/types';
+
+const PERIOD_MS: Record<TriggerCap['period'], number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000
+};
+
+// Trigger history older than the longest cap period is never consulted again
+const HISTORY_RETENTION_MS = PERIOD_MS.week;
+
+export interface TriggerLimitResult {
+  code: 'cooldown' | 'trigger_cap';
+  reason: string;
+}
+
+/**
+ * Check whether a rule's cooldown or trigger cap prevents it from firing for a campaign
+ */
+export function checkTriggerLimits(
+  rule: AutomationRule,
+  state: RuleCampaignState | null,
+  now: Date = new Date()
+): TriggerLimitResult | null {
+  if (!state) return null;
+
+  if (rule.cooldownMinutes && state.lastTriggered) {
+    const cooldownEnds = new Date(state.lastTriggered).getTime() + rule.cooldownMinutes * 60 * 1000;
+    if (cooldownEnds > now.getTime()) {
+      return {
+        code: 'cooldown',
+        reason: `Skipped: cooldown active until ${new Date(cooldownEnds).toISOString()}`
+      };
+    }
+  }
+
+  if (rule.maxTriggers) {
+    const { count, period } = rule.maxTriggers;
+    const periodStart = now.getTime() - PERIOD_MS[period];
+    const recentTriggers = state.triggerHistory.filter(
+      timestamp => new Date(timestamp).getTime() > periodStart
+    ).length;
+
+    if (recentTriggers >= count) {
+      return {
+        code: 'trigger_cap',
+        reason: `Skipped: trigger limit reached (${recentTriggers} of ${count} per ${period})`
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Record a trigger in the rule's campaign state, pruning history that can no longer matter
+ */
+export function recordTrigger(
+  state: RuleCampaignState | null,
+  ruleId: string,
+  campaignId: string,
+  now: Date = new Date()
+): RuleCampaignState {
+  const retentionStart = now.getTime() - HISTORY_RETENTION_MS;
+  const triggerHistory = (state?.triggerHistory || []).filter(
+    timestamp => new Date(timestamp).getTime() > retentionStart
+  );
+
+  return {
+    ...state,
+    ruleId,
+    campaignId,
+    lastTriggered: now.toISOString(),
+    triggerHistory: [...triggerHistory, now.toISOString()]
+  };
+}
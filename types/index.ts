@@ -1,8 +1,11 @@
 // Campaign data types based on Meta Ads API response
+export type CampaignStatus = 'ACTIVE' | 'PAUSED' | 'DELETED' | 'ARCHIVED';
+
 export interface Campaign {
   id: string;
+  account_id?: string;
   name: string;
-  status: 'ACTIVE' | 'PAUSED' | 'DELETED' | 'ARCHIVED';
+  status: CampaignStatus;
   objective: string;
   created_time: string;
   updated_time: string;
@@ -29,55 +32,478 @@ export interface Action {
 }
 
 // Automation rule types
-export type ComparisonOperator = '>' | '<' | '>=' | '<=' | '=' | '!=';
+export const COMPARISON_OPERATORS = ['>', '<', '>=', '<=', '=', '!='] as const;
+export type ComparisonOperator = typeof COMPARISON_OPERATORS[number];
 export type LogicalOperator = 'AND' | 'OR';
-export type ActionType = 'PAUSE_CAMPAIGN' | 'ADJUST_BUDGET' | 'LOG_EVENT' | 'SEND_NOTIFICATION';
+export const ACTION_TYPES = ['PAUSE_CAMPAIGN', 'RESUME_CAMPAIGN', 'ADJUST_BUDGET', 'LOG_EVENT', 'SEND_NOTIFICATION'] as const;
+export type ActionType = typeof ACTION_TYPES[number];
+
+export interface ActionParameterSpec {
+  type: 'number' | 'string' | 'boolean';
+  required?: boolean;
+  min?: number; // Smallest allowed value for number parameters
+}
+
+// Parameters each action accepts; anything else is rejected when a rule is saved
+export const ACTION_PARAMETERS: Record<ActionType, Record<string, ActionParameterSpec>> = {
+  PAUSE_CAMPAIGN: {
+    resumeAfterMinutes: { type: 'number', min: 1 }, // Reactivate the campaign after this long
+    resumeNextDay: { type: 'boolean' } // Reactivate the campaign at the start of the next day
+  },
+  RESUME_CAMPAIGN: {},
+  ADJUST_BUDGET: {
+    newBudget: { type: 'number', min: 0 }, // Set the budget to this amount ($)
+    changePercent: { type: 'number', min: -100 }, // Change the budget by this percentage
+    changeAmount: { type: 'number' }, // Change the budget by this amount ($)
+    spendMultiple: { type: 'number', min: 0 }, // Set the budget to this multiple of yesterday's spend
+    minBudget: { type: 'number', min: 0 }, // Never set the budget below this amount ($)
+    maxBudget: { type: 'number', min: 0 }, // Never set the budget above this amount ($)
+    maxDailyChange: { type: 'number', min: 0 } // Most the budget may move in a day ($)
+  },
+  LOG_EVENT: { message: { type: 'string' } },
+  SEND_NOTIFICATION: { message: { type: 'string' } }
+};
+
+// ADJUST_BUDGET parameters that say how to compute the new budget; a rule sets exactly one
+export const BUDGET_CHANGE_MODES = ['newBudget', 'changePercent', 'changeAmount', 'spendMultiple'] as const;
+export type BudgetChangeMode = typeof BUDGET_CHANGE_MODES[number];
+
+// What an action sequence does when one of its steps fails
+export const ACTION_FAILURE_POLICIES = ['continue', 'stop', 'compensate'] as const;
+export type ActionFailurePolicy = typeof ACTION_FAILURE_POLICIES[number];
+
+// Date windows that insights can be fetched for
+export type InsightsDatePreset =
+  | 'today'
+  | 'yesterday'
+  | 'last_3d'
+  | 'last_7d'
+  | 'last_14d'
+  | 'last_30d'
+  | 'last_month'
+  | 'lifetime';
+
+export interface InsightsWindow {
+  preset: InsightsDatePreset | 'custom';
+  since?: string; // YYYY-MM-DD, required for custom windows
+  until?: string; // YYYY-MM-DD, required for custom windows
+}
+
+// How a trend condition compares the condition window against its baseline
+export type ChangeMode = 'absolute' | 'percent';
+
+export interface ConditionChange {
+  mode: ChangeMode; // 'absolute' = current - baseline, 'percent' = % change from baseline
+  baseline: 'previous_period' | InsightsWindow; // Window to compare against
+}
+
+// Confidence levels supported by rate metric significance checks
+export const CONFIDENCE_LEVELS = [0.8, 0.9, 0.95, 0.99] as const;
+export type ConfidenceLevel = typeof CONFIDENCE_LEVELS[number];
 
 export interface RuleCondition {
   id: string;
-  field: string; // e.g., 'spend', 'ctr', 'roas', 'cpc'
+  field: string; // A metric such as 'spend' or 'roas', or an expression like 'spend / reach * 1000'
   operator: ComparisonOperator;
   value: number;
-  logicalOperator?: LogicalOperator; // Used when there are multiple conditions
+  valueExpression?: string; // When set, replaces `value` with an expression evaluated over the same window
+  window?: InsightsWindow; // Defaults to DEFAULT_INSIGHTS_WINDOW
+  change?: ConditionChange; // When set, `value` is compared against the change instead of the raw metric
+  confidence?: ConfidenceLevel; // Percentage metrics only: the rate's confidence interval must clear the threshold
+  logicalOperator?: LogicalOperator; // Only used by the legacy flat condition list
+}
+
+// A group of conditions and/or nested groups combined with one logical operator
+export interface ConditionGroup {
+  id: string;
+  type: 'group';
+  operator: LogicalOperator;
+  conditions: ConditionNode[];
+}
+
+export type ConditionNode = RuleCondition | ConditionGroup;
+
+// Condition tree input as accepted from clients (IDs are assigned by the engine)
+export type RuleConditionInput = Omit<RuleCondition, 'id'> & { id?: string };
+
+export interface ConditionGroupInput {
+  id?: string;
+  type: 'group';
+  operator: LogicalOperator;
+  conditions: ConditionNodeInput[];
+}
+
+export type ConditionNodeInput = RuleConditionInput | ConditionGroupInput;
+
+// Minimum data a campaign needs in every window a rule reads before the rule is evaluated
+export interface DataRequirements {
+  minImpressions?: number;
+  minClicks?: number;
+  minSpend?: number;
+  minDaysRunning?: number; // Days since the campaign's created_time
+}
+
+export const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+// When a rule may be evaluated, in `timezone` (defaults to the campaign's ad account timezone)
+export interface RuleSchedule {
+  hours?: { start: string; end: string }; // HH:mm, end exclusive; a start after the end wraps past midnight
+  weekdays?: Weekday[];
+  timezone?: string; // IANA name, e.g. 'America/New_York'
+  startDate?: string; // YYYY-MM-DD, first day the rule is evaluated
+  endDate?: string; // YYYY-MM-DD, last day; the rule is deactivated afterwards
+}
+
+// Caps how often a rule may fire for a campaign within a rolling period
+export interface TriggerCap {
+  count: number;
+  period: 'day' | 'week';
+}
+
+// Makes a rule wait until its conditions have held for a while before acting, and
+// then until a recovery condition holds before it can act again
+export interface RuleHysteresis {
+  consecutiveEvaluations?: number; // Evaluations in a row the conditions must match (default 1)
+  minDurationMinutes?: number; // How long the conditions must have kept matching
+  recovery?: ConditionGroup; // Defaults to the rule's conditions no longer matching
+}
+
+export type RuleHysteresisInput = Omit<RuleHysteresis, 'recovery'> & {
+  recovery?: ConditionGroupInput;
+};
+
+// Selects the campaigns a rule applies to. Campaigns listed in `campaignIds` or
+// belonging to `adAccountId` (the default ad account when neither is set) are candidates;
+// every other criterion must also match.
+export interface RuleScope {
+  adAccountId?: string;
+  campaignIds?: string[];
+  namePattern?: string; // Case-insensitive, `*` matches any characters
+  objectives?: string[];
+  statuses?: CampaignStatus[];
+  tags?: string[]; // Campaign must carry at least one of these tags
+}
+
+export interface RuleAction {
+  type: ActionType;
+  parameters?: Record<string, string | number | boolean>;
+}
+
+// One step of a rule's action sequence
+export interface RuleActionStep extends RuleAction {
+  onFailure?: ActionFailurePolicy; // continue with the next step, stop (default) or undo the completed steps
+  compensation?: RuleAction; // Undoes this step when a later step fails with the compensate policy
 }
 
 export interface AutomationRule {
   id: string;
+  slug: string; // Stable, human-readable key used to match rules across environments
   name: string;
   description?: string;
-  campaignId: string;
-  conditions: RuleCondition[];
-  action: {
-    type: ActionType;
-    parameters?: Record<string, string | number | boolean>;
-  };
+  campaignId?: string; // Single target campaign (used when no scope is set)
+  scope?: RuleScope;
+  conditions: ConditionGroup;
+  action: RuleAction; // The first step when `actions` is set
+  actions?: RuleActionStep[]; // Ordered action sequence run instead of the single action
   isActive: boolean;
+  priority?: number; // Higher priority rules win conflicts within a run (default 0)
+  stopProcessing?: boolean; // When matched, lower-priority rules are not applied to the campaign
+  cooldownMinutes?: number; // Minimum time between two triggers for the same campaign
+  maxTriggers?: TriggerCap;
+  hysteresis?: RuleHysteresis;
+  notificationChannels?: string[]; // IDs of the channels SEND_NOTIFICATION delivers to
+  dataRequirements?: DataRequirements;
+  schedule?: RuleSchedule;
+  version?: number; // Current entry in the rule's version history
   createdAt: string;
   updatedAt: string;
   lastTriggered?: string;
 }
 
+// One field that differs between two versions of a rule
+export interface RuleFieldChange {
+  path: string; // e.g. "conditions.conditions[0].value"
+  before?: unknown;
+  after?: unknown;
+}
+
+export type RuleVersionChangeType = 'created' | 'updated' | 'rolled_back' | 'deactivated';
+
+// Immutable snapshot of a rule, recorded whenever its configuration changes
+export interface RuleVersion {
+  ruleId: string;
+  version: number;
+  changeType: RuleVersionChangeType;
+  changedBy: string;
+  changedAt: string;
+  changes: RuleFieldChange[]; // Differences from the previous version
+  restoredVersion?: number; // Version a rollback restored
+  rule: AutomationRule;
+}
+
+// Campaign budgets are set at the campaign level as a daily or a lifetime amount
+export type BudgetType = 'daily' | 'lifetime';
+
+// A campaign's current budget in dollars
+export interface CampaignBudget {
+  type: BudgetType;
+  amount: number;
+}
+
+// Budget a campaign started the day with, for limiting changes per day
+export interface CampaignBudgetDay {
+  date: string; // YYYY-MM-DD in the ad account's timezone
+  startAmount: number;
+}
+
+// A budget change worked out for an ADJUST_BUDGET action
+export interface BudgetChange {
+  budgetType: BudgetType;
+  previousBudget: number | null; // Null when the current budget is unknown
+  newBudget: number;
+  limitedBy?: 'minBudget' | 'maxBudget' | 'maxDailyChange';
+}
+
+// A paused campaign waiting to be reactivated
+export interface PendingReactivation {
+  id: string;
+  campaignId: string;
+  campaignName?: string;
+  ruleId: string; // Rule whose pause scheduled the reactivation
+  ruleName: string;
+  pausedAt: string;
+  resumeAt: string;
+  attempts: number; // Failed reactivation attempts so far
+  lastError?: string;
+}
+
+// Runtime state the engine keeps for each rule and campaign pair
+export interface RuleCampaignState {
+  ruleId: string;
+  campaignId: string;
+  lastTriggered?: string;
+  triggerHistory: string[]; // Recent trigger timestamps, pruned to the longest cap period
+  consecutiveMatches?: number; // Evaluations in a row whose conditions matched
+  matchingSince?: string; // When the current run of matches started
+  awaitingRecovery?: boolean; // Fired with hysteresis and waiting for the recovery condition
+}
+
+// Metrics derived from campaign insights
+export interface CalculatedMetrics {
+  roas: number | null;
+  costPerAction: number | null;
+  conversionRate: number | null;
+}
+
+// Insights for one specific date window
+export interface WindowedInsights {
+  window: InsightsWindow;
+  insights: CampaignInsights | null;
+  calculatedMetrics: CalculatedMetrics;
+}
+
 // Combined campaign data with insights
 export interface CampaignWithInsights {
   campaign: Campaign;
-  insights: CampaignInsights | null;
-  calculatedMetrics: {
-    roas: number | null;
-    costPerAction: number | null;
-    conversionRate: number | null;
-  };
+  insights: CampaignInsights | null; // Insights for DEFAULT_INSIGHTS_WINDOW
+  calculatedMetrics: CalculatedMetrics;
+  windows?: Record<string, WindowedInsights>; // Keyed by getInsightsWindowKey()
+  accountTimezone?: string; // IANA timezone of the campaign's ad account
   lastUpdated: string;
 }
 
+// Outcome of evaluating a single condition against campaign data
+export interface ConditionEvaluation {
+  conditionId: string;
+  field: string;
+  operator: ComparisonOperator;
+  threshold: number | null; // Resolved comparison value (null if its expression could not be evaluated)
+  actualValue: number | null; // The value compared against the threshold
+  passed: boolean;
+  insufficientData?: string; // Why the condition could not be decided either way
+  window: InsightsWindow;
+  change?: ChangeMode;
+  currentValue?: number | null; // Metric in the condition window (trend conditions only)
+  baselineValue?: number | null; // Metric in the baseline window (trend conditions only)
+  baselineWindow?: InsightsWindow;
+}
+
+// Outcome of evaluating a rule's full condition tree
+export interface RuleEvaluation {
+  matched: boolean;
+  insufficientData?: string; // Set when the rule could not be decided; it must not act
+  conditions: ConditionEvaluation[];
+}
+
+// What a rule would do for one campaign right now, without executing anything
+export interface RuleDryRunResult {
+  campaignId: string;
+  campaignName?: string;
+  inScope: boolean; // Whether the campaign falls within the rule's scope
+  matched: boolean;
+  conditions: ConditionEvaluation[];
+  action: AutomationRule['action'] | null; // The action that would be taken
+  actions?: RuleActionStep[]; // The full sequence, for rules with several steps
+  reason: string;
+  skipReason?: string; // insufficient_data, schedule, cooldown, trigger_cap, campaign_paused, hysteresis, awaiting_recovery, recovered or conflict
+  suppressedBy?: string;
+  notificationPreview?: string; // The message SEND_NOTIFICATION would send for this campaign
+  error?: string;
+}
+
+export interface RuleDryRun {
+  rule: AutomationRule;
+  results: RuleDryRunResult[];
+  evaluatedAt: string;
+}
+
+// One simulated day of a backtest. Rules are evaluated as of the end of `date`, so
+// `today` is `date` and rolling windows end the day before; actions apply from the day after.
+export interface BacktestDay {
+  date: string;
+  spend: number; // Actual spend on the day
+  campaignStatus: 'ACTIVE' | 'PAUSED'; // Simulated status, including earlier actions
+  dailyBudget?: number; // Simulated budget set by an earlier ADJUST_BUDGET
+  matched: boolean;
+  fired: boolean;
+  action: ActionType | null;
+  skipReason?: string; // insufficient_data, cooldown, trigger_cap, hysteresis, awaiting_recovery, recovered or campaign_paused
+  conditions: ConditionEvaluation[];
+  spendDelta: number; // Estimated spend change caused by earlier actions (negative = saved)
+}
+
+export interface BacktestResult {
+  ruleId: string;
+  campaignId: string;
+  since: string;
+  until: string;
+  days: BacktestDay[];
+  summary: {
+    fireCount: number;
+    spendSaved: number;
+    spendAdded: number;
+  };
+  error?: string;
+}
+
+// Why a rule did or did not fire, recorded with each log entry
+export interface AutomationLogEvaluation extends RuleEvaluation {
+  actionParameters?: Record<string, string | number | boolean>; // Parameters sent with the action
+}
+
 // Automation execution log
+export type ActionStepStatus = 'succeeded' | 'failed' | 'skipped' | 'compensated';
+
+// What happened to one step of an action sequence
+export interface ActionStepResult {
+  step: number; // Position in the sequence, starting at 1
+  type: ActionType;
+  parameters?: Record<string, string | number | boolean>;
+  status: ActionStepStatus;
+  error?: string;
+  compensation?: { // Set when the step's compensation was run
+    type: ActionType;
+    success: boolean;
+    error?: string;
+  };
+}
+
+export type ActionSequenceOutcome = 'succeeded' | 'partial_failure' | 'failed';
+
+export interface ActionSequenceResult {
+  outcome: ActionSequenceOutcome;
+  steps: ActionStepResult[];
+}
+
+export type ActionExecutorDriver = 'live' | 'simulated';
+
+// Outcome of carrying out one action against a campaign
+export interface ActionExecutionResult {
+  success: boolean;
+  action: ActionType;
+  timestamp: Date;
+  simulated: boolean;
+  error?: string; // Why the action was not applied, e.g. the Graph API error message
+}
+
+// Channels SEND_NOTIFICATION can deliver to
+export const NOTIFICATION_CHANNEL_TYPES = ['webhook', 'slack', 'email'] as const;
+export type NotificationChannelType = typeof NOTIFICATION_CHANNEL_TYPES[number];
+
+// Generic HTTP webhook: the notification is POSTed as JSON
+export interface WebhookChannelConfig {
+  url: string;
+  headers?: Record<string, string>; // Values are redacted by the API
+}
+
+// Slack-compatible incoming webhook: the notification is POSTed as a `text` message
+export interface SlackChannelConfig {
+  webhookUrl: string; // Redacted by the API
+  channel?: string; // Overrides the webhook's default channel where supported
+  username?: string;
+}
+
+// Email sent through an SMTP server
+export interface EmailChannelConfig {
+  host: string;
+  port: number;
+  secure?: boolean; // Implicit TLS (usually port 465)
+  username?: string;
+  password?: string; // Never returned by the API
+  allowInsecureAuth?: boolean; // Send credentials without TLS, e.g. to a local mail catcher
+  from: string;
+  to: string[];
+}
+
+// A notification channel as created or updated through the API
+export type NotificationChannelInput = {
+  id: string; // Chosen by the user, e.g. "ops-slack"; rules refer to channels by ID
+  name: string;
+} & (
+  | { type: 'webhook'; config: WebhookChannelConfig }
+  | { type: 'slack'; config: SlackChannelConfig }
+  | { type: 'email'; config: EmailChannelConfig }
+);
+
+export type NotificationChannel = NotificationChannelInput & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Message sent to notification channels when a rule fires
+export interface AutomationNotification {
+  subject: string;
+  message: string;
+  ruleId: string;
+  ruleName: string;
+  campaignId: string;
+  campaignName: string;
+  timestamp: string;
+}
+
+// Delivery of a notification to one channel
+export interface NotificationDelivery {
+  channelId: string;
+  channelType?: NotificationChannelType; // Missing when the channel does not exist
+  status: 'delivered' | 'failed';
+  error?: string;
+  timestamp: string;
+}
+
 export interface AutomationLog {
   id: string;
   ruleId: string;
   campaignId: string;
+  ruleVersion?: number; // Version of the rule that produced the log
   action: ActionType;
   triggered: boolean;
   reason: string;
   timestamp: string;
+  evaluation?: AutomationLogEvaluation;
+  actionSteps?: ActionStepResult[]; // Per-step results of an action sequence
+  actionOutcome?: ActionSequenceOutcome;
+  notifications?: NotificationDelivery[]; // Delivery status of each notification channel
   metadata?: Record<string, string | number | boolean>;
 }
 
@@ -86,26 +512,139 @@ export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  errors?: FieldError[]; // Field-level validation errors
   message?: string;
 }
 
+// A validation problem with one request field
+export interface FieldError {
+  field: string; // Path of the field, e.g. "conditions.conditions[0].operator"
+  message: string;
+}
+
 // Form types for the frontend
 export interface CreateRuleForm {
   name: string;
+  slug?: string; // Generated from the name when omitted
   description: string;
-  campaignId: string;
-  conditions: Omit<RuleCondition, 'id'>[];
+  campaignId?: string; // Either a single campaign or a scope is required
+  scope?: RuleScope;
+  conditions: ConditionGroupInput | RuleConditionInput[]; // Flat lists are migrated to a tree
   actionType: ActionType;
   actionParameters?: Record<string, string | number | boolean>;
+  actions?: RuleActionStep[]; // Ordered action sequence (replaces actionType/actionParameters)
+  priority?: number;
+  stopProcessing?: boolean;
+  cooldownMinutes?: number;
+  maxTriggers?: TriggerCap;
+  hysteresis?: RuleHysteresisInput;
+  notificationChannels?: string[];
+  dataRequirements?: DataRequirements;
+  schedule?: RuleSchedule;
+}
+
+// Parameter a rule template asks for when it is instantiated
+export type TemplateParameterValue = number | string;
+
+export interface RuleTemplateParameter {
+  key: string;
+  label: string;
+  type: 'number' | 'string';
+  defaultValue: TemplateParameterValue;
+  min?: number; // Number parameters only
+  unit?: string; // e.g. '$' or '%'
+}
+
+// A reusable rule with placeholders for its thresholds, amounts and messages
+export interface RuleTemplate {
+  id: string;
+  name: string;
+  description: string;
+  parameters: RuleTemplateParameter[];
+}
+
+// Rule configuration as stored in an exported rules document (no IDs or timestamps)
+export type PortableRule = Omit<
+  AutomationRule, 'id' | 'version' | 'createdAt' | 'updatedAt' | 'lastTriggered' | 'conditions' | 'hysteresis'
+> & {
+  conditions: ConditionGroupInput;
+  hysteresis?: RuleHysteresisInput;
+};
+
+export const RULES_DOCUMENT_VERSION = 1;
+
+// Versioned document used to export rules and import them into another environment
+export interface RulesDocument {
+  version: typeof RULES_DOCUMENT_VERSION;
+  exportedAt?: string;
+  rules: PortableRule[];
+}
+
+export interface RuleImportChange {
+  slug: string;
+  name: string;
+  ruleId?: string; // Existing rule, or the created one once applied
+  changes?: RuleFieldChange[];
+}
+
+// Outcome of importing a rules document, keyed by slug
+export interface RulesImportResult {
+  dryRun: boolean;
+  created: RuleImportChange[];
+  updated: RuleImportChange[];
+  unchanged: RuleImportChange[];
+  removed: RuleImportChange[]; // Only when pruning rules missing from the document
+}
+
+// A rule parsed from or printed as DSL source
+export interface RuleDslResult {
+  rule: AutomationRule;
+  source: string; // Canonical formatting of the rule
+}
+
+// Where parsing DSL source failed
+export interface RuleDslErrorLocation {
+  line: number;
+  column: number;
 }
 
 // Meta Ads API configuration
 export const META_ADS_CONFIG = {
   baseUrl: 'https://dev-api.adcopy.ai/challenge-proxy/meta',
   bearerToken: process.env.META_ADS_BEARER_TOKEN || '',
+  adAccountId: process.env.META_ADS_ACCOUNT_ID || '', // Default account for scopes without campaigns or an account
   sampleCampaignId: '120225449479650554'
 } as const;
 
+// How rule actions are carried out ('simulated' only logs the Graph API call, 'live' makes it)
+export const ACTION_EXECUTOR_CONFIG = {
+  driver: (process.env.ACTION_EXECUTOR || 'simulated') as ActionExecutorDriver,
+  graphBaseUrl: process.env.META_GRAPH_BASE_URL || 'https://graph.facebook.com/v18.0',
+  accessToken: process.env.META_ACCESS_TOKEN || ''
+} as const;
+
+// Automation storage configuration ('file' persists to disk, 'memory' is lost on restart)
+export const STORAGE_CONFIG = {
+  driver: (process.env.AUTOMATION_STORAGE_DRIVER || 'file') as 'file' | 'memory',
+  filePath: process.env.AUTOMATION_STORAGE_FILE || '.data/automation.json'
+} as const;
+
+// Window used when a condition does not specify one
+export const DEFAULT_INSIGHTS_WINDOW: InsightsWindow = { preset: 'last_month' };
+
+// Selectable insights windows for rule conditions
+export const INSIGHTS_DATE_PRESETS = [
+  { key: 'today', label: 'Today' },
+  { key: 'yesterday', label: 'Yesterday' },
+  { key: 'last_3d', label: 'Last 3 days' },
+  { key: 'last_7d', label: 'Last 7 days' },
+  { key: 'last_14d', label: 'Last 14 days' },
+  { key: 'last_30d', label: 'Last 30 days' },
+  { key: 'last_month', label: 'Last month' },
+  { key: 'lifetime', label: 'Lifetime' },
+  { key: 'custom', label: 'Custom range' }
+] as const;
+
 // Available fields for campaign insights
 export const INSIGHT_FIELDS = [
   'spend',